@@ -1,18 +1,69 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Session } from '@supabase/supabase-js';
 import { Converter } from './components/Converter';
 import { MarketInsight } from './components/MarketInsight';
-import { fetchRealTimeRate } from './services/gemini';
-import { ExchangeData, CurrencyCode } from './types';
-import { Coins, AlertTriangle } from 'lucide-react';
+import { RateChart } from './components/RateChart';
+import { AlertPanel } from './components/AlertPanel';
+import { BatchConverter } from './components/BatchConverter';
+import { RemittanceCalculator } from './components/RemittanceCalculator';
+import { QueryBox } from './components/QueryBox';
+import { AccountMenu } from './components/AccountMenu';
+import { Watchlist } from './components/Watchlist';
+import { ConversionHistory } from './components/ConversionHistory';
+import { fetchRealTimeRate, fetchServiceStatus } from './services/api';
+import { getMarketRate, invertExchangeData } from './services/markets';
+import { recordRecentPair } from './services/currencyCatalog';
+import { AlertTrigger } from './services/alerts';
+import { alertStore } from './services/alertStore';
+import { startAlertPoller } from './services/alertPoller';
+import { loadCachedRate, saveCachedRate } from './services/offlineCache';
+import { ConverterUrlState, buildUrlSearch, readUrlState } from './services/urlState';
+import { applyShareTitle, buildShareSnapshot } from './services/shareSnapshot';
+import { ConversionQuery } from './services/queryParser';
+import { supabase } from './services/supabase';
+import { watchSession } from './services/account';
+import { buildConversionRecord, isSameConversion } from './services/conversionHistory';
+import { createSupabaseUserDataStore, localUserDataStore, migrateLocalData } from './services/userDataStore';
+import { ExchangeData, CurrencyCode, Market, CacheStatus, ServiceStatus, ConversionRecord, UserPreferences, WatchlistEntry } from './types';
+import { Coins, AlertTriangle, WifiOff, Activity } from 'lucide-react';
+
+// How long a conversion must stay unchanged before it is added to the history
+const RECORD_DELAY_MS = 3000;
 
 const App: React.FC = () => {
   const [data, setData] = useState<ExchangeData | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [cacheStatus, setCacheStatus] = useState<CacheStatus | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+  const [serviceStatus, setServiceStatus] = useState<ServiceStatus | null>(null);
   
-  // Currency State
-  const [fromCurrency, setFromCurrency] = useState<CurrencyCode>('USD');
-  const [toCurrency, setToCurrency] = useState<CurrencyCode>('NGN');
+  // Currency State, seeded from the URL so shared links open on the same conversion
+  const [initialUrlState] = useState<ConverterUrlState>(() => readUrlState(window.location.search));
+  const [fromCurrency, setFromCurrency] = useState<CurrencyCode>(initialUrlState.from);
+  const [toCurrency, setToCurrency] = useState<CurrencyCode>(initialUrlState.to);
+  const [amount, setAmount] = useState<string>(initialUrlState.amount);
+  const [market, setMarket] = useState<Market>(initialUrlState.market);
+  const [alertTriggers, setAlertTriggers] = useState<AlertTrigger[]>([]);
+
+  // Account state. Until the first auth event we don't know which store to read.
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionKnown, setSessionKnown] = useState<boolean>(false);
+  const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  const [watchlist, setWatchlist] = useState<WatchlistEntry[]>([]);
+  const [history, setHistory] = useState<ConversionRecord[]>([]);
+  const userId = session?.user.id;
+  const userStore = useMemo(
+    () => (userId ? createSupabaseUserDataStore(supabase, userId) : localUserDataStore),
+    [userId]
+  );
+  // The saved default pair only applies when the URL doesn't ask for one
+  const defaultsPending = useRef<boolean>(
+    !['from', 'to', 'market'].some(key => new URLSearchParams(window.location.search).has(key))
+  );
+  // The state the page opened on is not a conversion the user made
+  const lastRecorded = useRef<ConversionRecord | null>(null);
+  const openedOn = useRef<string | null>(JSON.stringify(initialUrlState));
 
   // Cache to store rates: "FROM-TO" -> ExchangeData
   const ratesCache = useRef<Record<string, ExchangeData>>({});
@@ -28,6 +79,7 @@ const App: React.FC = () => {
       // Direct cache hit
       if (ratesCache.current[cacheKey]) {
         setData(ratesCache.current[cacheKey]);
+        setCacheStatus(null);
         setLoading(false);
         return;
       }
@@ -35,26 +87,50 @@ const App: React.FC = () => {
       // Inverse cache hit (Smart Inversion)
       // If we have USD->NGN, we can calculate NGN->USD instantly
       if (ratesCache.current[inverseKey]) {
-        const invData = ratesCache.current[inverseKey];
-        // Calculate inverted rates
-        const invertedData: ExchangeData = {
-          ...invData,
-          rate: invData.rate ? 1 / invData.rate : 0,
-          parallelRate: invData.parallelRate ? 1 / invData.parallelRate : undefined,
-          // We keep the original timestamp and sources
-        };
+        // Calculate inverted rates, keeping the original timestamp and sources
+        const invertedData = invertExchangeData(ratesCache.current[inverseKey]);
         
         // Store the computed inverse in cache so we don't recalculate next time
         ratesCache.current[cacheKey] = invertedData;
         
         setData(invertedData);
+        setCacheStatus(null);
         setLoading(false);
         return;
       }
     }
 
-    // 2. Fetch from API if not in cache
-    setLoading(true);
+    // 2. Show the last good rate from the persistent cache instantly, then revalidate
+    const persisted = forceRefresh ? null : await loadCachedRate(cacheKey);
+    if (persisted) {
+      setData(persisted.data);
+      setLoading(false);
+    }
+
+    if (!navigator.onLine) {
+      if (persisted) {
+        setCacheStatus({ savedAt: persisted.savedAt, offline: true, revalidating: false });
+      } else if (!forceRefresh) {
+        setError("You're offline and there is no saved rate for this pair yet.");
+      }
+      setLoading(false);
+      return;
+    }
+
+    // 3. Fetch from API if not in memory cache
+    if (persisted) {
+      setCacheStatus({ savedAt: persisted.savedAt, offline: false, revalidating: true });
+    } else {
+      setLoading(true);
+    }
+    // Provider health explains fallback rates and failures better than a generic error
+    const statusRequest = fetchServiceStatus()
+      .then(status => {
+        setServiceStatus(status);
+        return status;
+      })
+      .catch(() => null);
+
     try {
       const result = await fetchRealTimeRate(fromCurrency, toCurrency);
       
@@ -63,17 +139,25 @@ const App: React.FC = () => {
       
       // Also cache the inverse immediately so swapping is instant later
       if (result.rate > 0) {
-        ratesCache.current[inverseKey] = {
-           ...result,
-           rate: 1 / result.rate,
-           parallelRate: result.parallelRate ? 1 / result.parallelRate : undefined
-        };
+        ratesCache.current[inverseKey] = invertExchangeData(result);
       }
 
       setData(result);
+      setCacheStatus(null);
+
+      // Persist only live data; the emergency table is not a "last good rate"
+      if (result.origin !== 'emergency') {
+        saveCachedRate(cacheKey, result);
+      }
     } catch (err) {
       console.error(err);
-      setError("Unable to retrieve real-time data. Please check your connection or try again later.");
+      if (persisted) {
+        setCacheStatus({ savedAt: persisted.savedAt, offline: false, revalidating: false });
+      } else if ((await statusRequest)?.degraded) {
+        setError("Live rate sources are degraded and no saved rate is available for this pair. Please try again in a few minutes.");
+      } else {
+        setError("Unable to retrieve real-time data. Please check your connection or try again later.");
+      }
     } finally {
       setLoading(false);
     }
@@ -83,6 +167,163 @@ const App: React.FC = () => {
     loadData(false);
   }, [loadData]);
 
+  // Revalidate in the background as soon as the network returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      loadData(false);
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [loadData]);
+
+  // Background alert evaluation, independent of the pair on screen
+  useEffect(() => startAlertPoller({ store: alertStore, onTrigger: setAlertTriggers }), []);
+
+  useEffect(() => {
+    if (fromCurrency !== toCurrency) recordRecentPair(fromCurrency, toCurrency);
+  }, [fromCurrency, toCurrency]);
+
+  // Signing in moves anything saved anonymously on this device into the
+  // account. A magic link can land already signed in, so the initial session
+  // counts too; the account store is only used once the move has finished.
+  useEffect(() => watchSession((next, event) => {
+    const apply = () => {
+      setSession(next);
+      setSessionKnown(true);
+    };
+    if (next && (event === 'SIGNED_IN' || event === 'INITIAL_SESSION')) {
+      migrateLocalData(localUserDataStore, createSupabaseUserDataStore(supabase, next.user.id))
+        .catch(err => console.warn('Failed to move local data into the account', err))
+        .finally(apply);
+    } else {
+      apply();
+    }
+  }), []);
+
+  useEffect(() => {
+    if (!sessionKnown) return;
+    let cancelled = false;
+    Promise.all([userStore.loadPreferences(), userStore.listWatchlist(), userStore.listHistory()])
+      .then(([loadedPreferences, loadedWatchlist, loadedHistory]) => {
+        if (cancelled) return;
+        setPreferences(loadedPreferences);
+        setWatchlist(loadedWatchlist);
+        setHistory(loadedHistory);
+        lastRecorded.current = loadedHistory[0] ?? null;
+        if (loadedPreferences && defaultsPending.current) {
+          const { defaultFrom: from, defaultTo: to, defaultMarket } = loadedPreferences;
+          openedOn.current = JSON.stringify({ from, to, amount: initialUrlState.amount, market: defaultMarket });
+          setFromCurrency(from);
+          setToCurrency(to);
+          setMarket(defaultMarket);
+        }
+        defaultsPending.current = false;
+      })
+      .catch(err => console.warn('Failed to load saved pairs and history', err));
+    return () => { cancelled = true; };
+  }, [userStore, sessionKnown]);
+
+  // Record a conversion once it has stayed on screen for a moment, so typing
+  // an amount doesn't log every keystroke
+  useEffect(() => {
+    if (!data || loading || error || !sessionKnown) return;
+    const state = { from: fromCurrency, to: toCurrency, amount, market };
+    if (JSON.stringify(state) === openedOn.current) return;
+    openedOn.current = null;
+
+    const timer = setTimeout(() => {
+      const record = buildConversionRecord(data, state);
+      if (!record || (lastRecorded.current && isSameConversion(lastRecorded.current, record))) return;
+      lastRecorded.current = record;
+      setHistory(current => [record, ...current]);
+      userStore.recordConversion(record).catch(err => console.warn('Failed to save conversion', err));
+    }, RECORD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [data, loading, error, sessionKnown, fromCurrency, toCurrency, amount, market, userStore]);
+
+  // Mirror converter state into the query string. Pair and market changes get
+  // their own history entry; typing an amount only replaces the current one.
+  useEffect(() => {
+    const search = buildUrlSearch({ from: fromCurrency, to: toCurrency, amount, market }, window.location.search);
+    if (search === window.location.search) return;
+
+    const current = readUrlState(window.location.search);
+    const amountOnly = current.from === fromCurrency && current.to === toCurrency && current.market === market;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (amountOnly) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [fromCurrency, toCurrency, amount, market]);
+
+  // Back/forward restores the converter from the URL
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = readUrlState(window.location.search);
+      setFromCurrency(state.from);
+      setToCurrency(state.to);
+      setAmount(state.amount);
+      setMarket(state.market);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    if (!data || loading) return;
+    applyShareTitle(buildShareSnapshot(data, { from: fromCurrency, to: toCurrency, amount, market }));
+  }, [data, loading, fromCurrency, toCurrency, amount, market]);
+
+  const handlePairSelect = (from: CurrencyCode, to: CurrencyCode) => {
+    setFromCurrency(from);
+    setToCurrency(to);
+  };
+
+  // A query only changes the market when it names one
+  const handleQuery = (query: ConversionQuery) => {
+    setFromCurrency(query.from);
+    setToCurrency(query.to);
+    setAmount(query.amount);
+    if (query.market) setMarket(query.market);
+  };
+
+  const handleWatch = () => {
+    const entry = { from: fromCurrency, to: toCurrency, addedAt: new Date().toISOString() };
+    setWatchlist(current => [...current, entry]);
+    userStore.addToWatchlist(entry).catch(err => console.warn('Failed to save watchlist', err));
+  };
+
+  const handleUnwatch = (from: CurrencyCode, to: CurrencyCode) => {
+    setWatchlist(current => current.filter(e => e.from !== from || e.to !== to));
+    userStore.removeFromWatchlist(from, to).catch(err => console.warn('Failed to save watchlist', err));
+  };
+
+  const handleMakeDefault = () => {
+    const next = { defaultFrom: fromCurrency, defaultTo: toCurrency, defaultMarket: market };
+    setPreferences(next);
+    userStore.savePreferences(next).catch(err => console.warn('Failed to save default pair', err));
+  };
+
+  const handleHistorySelect = (record: ConversionRecord) => {
+    setFromCurrency(record.from);
+    setToCurrency(record.to);
+    setAmount(record.amount);
+    setMarket(record.market);
+  };
+
+  const handleClearHistory = () => {
+    setHistory([]);
+    lastRecorded.current = null;
+    userStore.clearHistory().catch(err => console.warn('Failed to clear history', err));
+  };
+
   const handleManualRefresh = () => {
     loadData(true);
   };
@@ -106,8 +347,17 @@ const App: React.FC = () => {
               NairaSense
             </h1>
           </div>
-          <div className="text-xs font-medium text-slate-500 hidden sm:block">
-            AI-Powered Real-Time Rates
+          <div className="flex items-center gap-3">
+            {isOnline ? (
+              <div className="text-xs font-medium text-slate-500 hidden md:block">
+                AI-Powered Real-Time Rates
+              </div>
+            ) : (
+              <div className="flex items-center gap-1.5 text-xs font-semibold text-slate-100 bg-slate-800 px-2.5 py-1 rounded-full">
+                <WifiOff size={12} /> Offline
+              </div>
+            )}
+            <AccountMenu session={session} />
           </div>
         </div>
       </nav>
@@ -138,19 +388,91 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {serviceStatus?.degraded && !error && (
+            <div className="mb-6 px-4 py-3 bg-amber-50 border border-amber-100 text-amber-800 rounded-xl flex items-start gap-3 text-sm">
+              <Activity className="shrink-0 mt-0.5" size={18} />
+              <p>
+                <span className="font-semibold">Live source degraded.</span>{' '}
+                Rates may come from cached or backup sources until{' '}
+                {serviceStatus.providers.filter(p => p.state !== 'closed').map(p => p.id).join(', ')} recovers.
+              </p>
+            </div>
+          )}
+
+          <Watchlist
+            entries={watchlist}
+            preferences={preferences}
+            fromCurrency={fromCurrency}
+            toCurrency={toCurrency}
+            market={market}
+            onAdd={handleWatch}
+            onRemove={handleUnwatch}
+            onSelect={handlePairSelect}
+            onMakeDefault={handleMakeDefault}
+          />
+
+          <QueryBox
+            data={data}
+            loading={loading}
+            fromCurrency={fromCurrency}
+            toCurrency={toCurrency}
+            amount={amount}
+            market={market}
+            onApply={handleQuery}
+          />
+
           <Converter 
             data={data} 
             loading={loading} 
             onRefresh={handleManualRefresh}
-            lastUpdated={data?.lastUpdated || null}
             fromCurrency={fromCurrency}
             toCurrency={toCurrency}
+            amount={amount}
+            onAmountChange={setAmount}
             onFromChange={setFromCurrency}
             onToChange={setToCurrency}
+            onPairSelect={handlePairSelect}
             onSwap={handleSwap}
+            market={market}
+            onMarketChange={setMarket}
+            cacheStatus={cacheStatus}
+          />
+
+          <RemittanceCalculator
+            data={data}
+            fromCurrency={fromCurrency}
+            toCurrency={toCurrency}
+          />
+
+          <RateChart
+            fromCurrency={fromCurrency}
+            toCurrency={toCurrency}
+          />
+
+          <ConversionHistory
+            records={history}
+            onSelect={handleHistorySelect}
+            onClear={handleClearHistory}
+          />
+
+          {/* Signing in or out switches which alert store is read */}
+          <AlertPanel
+            key={userId ?? 'signed-out'}
+            fromCurrency={fromCurrency}
+            toCurrency={toCurrency}
+            market={market}
+            currentRate={data ? getMarketRate(data, market) ?? data.rate : null}
+            recentTriggers={alertTriggers}
+          />
+
+          <BatchConverter
+            defaultFrom={fromCurrency}
+            market={market}
           />
 
           <MarketInsight 
+            fromCurrency={fromCurrency}
+            toCurrency={toCurrency}
             summary={data?.summary || ""}
             loading={loading}
           />
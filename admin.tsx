@@ -0,0 +1,15 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { AdminConsole } from './components/AdminConsole';
+
+// Entry point for admin.html, the rate management console
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error("Could not find root element to mount to");
+}
+
+ReactDOM.createRoot(rootElement).render(
+  <React.StrictMode>
+    <AdminConsole />
+  </React.StrictMode>
+);
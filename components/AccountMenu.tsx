@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { sendSignInLink, signOutOfAccount } from '../services/account';
+import { LogOut, Mail, UserRound } from 'lucide-react';
+
+interface AccountMenuProps {
+  session: Session | null;
+}
+
+// Signing in is optional; it only moves watchlists and history to the account
+export const AccountMenu: React.FC<AccountMenuProps> = ({ session }) => {
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await sendSignInLink(email.trim());
+      setSentTo(email.trim());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setError(null);
+    try {
+      await signOutOfAccount();
+      setOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 hover:text-slate-800 px-2.5 py-1.5 rounded-lg hover:bg-slate-100"
+        aria-expanded={open}
+      >
+        <UserRound size={16} />
+        <span className="hidden sm:inline max-w-40 truncate">{session ? session.user.email : 'Sign in'}</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-slate-200 rounded-xl shadow-xl p-4 text-sm">
+          {session ? (
+            <>
+              <p className="text-slate-500 text-xs">Signed in as</p>
+              <p className="font-semibold text-slate-800 truncate">{session.user.email}</p>
+              <p className="mt-2 text-xs text-slate-400">Your watchlist, default pair and history are saved to your account.</p>
+              <button
+                onClick={handleSignOut}
+                className="mt-3 inline-flex items-center gap-1.5 text-xs font-semibold text-slate-600 hover:text-red-600"
+              >
+                <LogOut size={14} /> Sign out
+              </button>
+            </>
+          ) : sentTo ? (
+            <p className="text-slate-600">
+              Check <span className="font-semibold">{sentTo}</span> for a sign-in link. Anything saved on this device moves to your account when you sign in.
+            </p>
+          ) : (
+            <form onSubmit={handleSend}>
+              <p className="text-xs text-slate-500 mb-2">
+                Keep your watchlist and conversion history across devices. We'll email you a sign-in link.
+              </p>
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                className="mt-2 w-full inline-flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                <Mail size={14} /> {busy ? 'Sending…' : 'Email me a link'}
+              </button>
+            </form>
+          )}
+          {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { AuditAction, AuditEntry } from '../types';
+import { formatRelativeAge } from '../services/time';
+
+interface AdminAuditLogProps {
+  entries: AuditEntry[];
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'rate.refresh': 'Forced refresh',
+  'override.create': 'Pinned rate',
+  'override.clear': 'Cleared pinned rate',
+  'emergency.set': 'Set emergency rate',
+  'emergency.delete': 'Reset emergency rate',
+  'quarantine.approve': 'Approved quarantined quote',
+  'quarantine.reject': 'Rejected quarantined quote',
+};
+
+// Details are free-form per action; show them compactly as key: value pairs
+const describeDetails = (details: AuditEntry['details']) =>
+  Object.entries(details)
+    .filter(([, value]) => value !== undefined && value !== null && !Array.isArray(value))
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
+    .join(', ');
+
+export const AdminAuditLog: React.FC<AdminAuditLogProps> = ({ entries }) => (
+  <section>
+    <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider mb-3">Audit log</h2>
+    {entries.length === 0 ? (
+      <p className="text-sm text-slate-400">No admin changes yet.</p>
+    ) : (
+      <div className="bg-white border border-slate-200 rounded-xl divide-y divide-slate-100 text-xs">
+        {entries.map(entry => (
+          <div key={entry.id} className="px-4 py-2 flex flex-wrap gap-x-3 gap-y-0.5">
+            <span className="text-slate-400 w-24 shrink-0" title={new Date(entry.createdAt).toLocaleString()}>
+              {formatRelativeAge(entry.createdAt)}
+            </span>
+            <span className="font-semibold text-slate-700">{entry.actor}</span>
+            <span className="text-slate-600">{ACTION_LABELS[entry.action] ?? entry.action}</span>
+            {entry.pair && <span className="text-slate-800">{entry.pair}</span>}
+            <span className="text-slate-400 break-all">{describeDetails(entry.details)}</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </section>
+);
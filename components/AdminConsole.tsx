@@ -0,0 +1,180 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AdminPairStatus, AuditEntry, EmergencyRate, QuarantinedRate } from '../types';
+import {
+  AdminApiError,
+  fetchAdminSession,
+  fetchAuditLog,
+  fetchEmergencyRates,
+  fetchPairStatuses,
+  fetchQuarantine,
+  setAdminToken,
+  signInWithPassword,
+  signOut
+} from '../services/adminApi';
+import { AdminPairTable } from './AdminPairTable';
+import { AdminEmergencyRates } from './AdminEmergencyRates';
+import { AdminQuarantine } from './AdminQuarantine';
+import { AdminAuditLog } from './AdminAuditLog';
+import { AlertTriangle, Coins, LogOut, RefreshCw } from 'lucide-react';
+
+type SignInMode = 'email' | 'token';
+
+const AdminSignIn: React.FC<{ onSignedIn: (actor: string) => void }> = ({ onSignedIn }) => {
+  const [mode, setMode] = useState<SignInMode>('email');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (mode === 'email') {
+        await signInWithPassword(email, password);
+      } else {
+        setAdminToken(token.trim());
+      }
+      const { actor } = await fetchAdminSession();
+      onSignedIn(actor);
+    } catch (err) {
+      if (mode === 'token') setAdminToken(null);
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto mt-16 bg-white border border-slate-200 rounded-2xl shadow-sm p-6 space-y-4">
+      <h2 className="text-lg font-bold text-slate-800">Admin sign in</h2>
+      <div className="flex gap-1 p-1 bg-slate-100 rounded-lg text-xs font-semibold">
+        {(['email', 'token'] as SignInMode[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setMode(option)}
+            className={`flex-1 py-1.5 rounded-md ${mode === option ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}
+          >
+            {option === 'email' ? 'Account' : 'Admin token'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'email' ? (
+        <>
+          <input type="email" required value={email} onChange={e => setEmail(e.target.value)} placeholder="Email" className={inputClass} />
+          <input type="password" required value={password} onChange={e => setPassword(e.target.value)} placeholder="Password" className={inputClass} />
+        </>
+      ) : (
+        <input type="password" required value={token} onChange={e => setToken(e.target.value)} placeholder="ADMIN_TOKEN" className={inputClass} />
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <button type="submit" disabled={busy} className="w-full py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 disabled:opacity-50">
+        {busy ? 'Signing in…' : 'Sign in'}
+      </button>
+    </form>
+  );
+};
+
+// Entry view for admin.html: cached rows per pair, overrides, the emergency
+// table, the quarantine queue and the audit log. Everything is read through
+// the rate server's /admin routes, which check the caller is an admin.
+export const AdminConsole: React.FC = () => {
+  const [actor, setActor] = useState<string | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+  const [pairs, setPairs] = useState<AdminPairStatus[]>([]);
+  const [emergencyRates, setEmergencyRates] = useState<EmergencyRate[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedRate[]>([]);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAdminSession()
+      .then(session => setActor(session.actor))
+      .catch(err => {
+        if (!(err instanceof AdminApiError && (err.status === 401 || err.status === 403))) console.warn('Admin session check failed', err);
+      })
+      .finally(() => setCheckingSession(false));
+  }, []);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [nextPairs, nextEmergency, nextQuarantine, nextAudit] = await Promise.all([
+        fetchPairStatuses(),
+        fetchEmergencyRates(),
+        fetchQuarantine(),
+        fetchAuditLog(),
+      ]);
+      setPairs(nextPairs);
+      setEmergencyRates(nextEmergency);
+      setQuarantine(nextQuarantine);
+      setAudit(nextAudit);
+    } catch (err) {
+      if (err instanceof AdminApiError && err.status === 401) setActor(null);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (actor) reload();
+  }, [actor, reload]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    setActor(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900 font-sans">
+      <nav className="bg-white border-b border-slate-200">
+        <div className="max-w-6xl mx-auto px-6 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="bg-green-600 p-2 rounded-lg text-white">
+              <Coins size={20} />
+            </div>
+            <h1 className="text-xl font-bold text-slate-800">NairaSense admin</h1>
+          </div>
+          {actor && (
+            <div className="flex items-center gap-3 text-sm text-slate-500">
+              <span>{actor}</span>
+              <button onClick={reload} disabled={loading} className="p-2 rounded-lg hover:bg-slate-100" title="Reload">
+                <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+              </button>
+              <button onClick={handleSignOut} className="p-2 rounded-lg hover:bg-slate-100" title="Sign out">
+                <LogOut size={16} />
+              </button>
+            </div>
+          )}
+        </div>
+      </nav>
+
+      {checkingSession ? null : !actor ? (
+        <AdminSignIn onSignedIn={setActor} />
+      ) : (
+        <main className="max-w-6xl mx-auto p-6 space-y-8">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-100 text-red-700 rounded-xl flex items-start gap-3 text-sm">
+              <AlertTriangle className="shrink-0 mt-0.5" size={18} />
+              <p>{error}</p>
+            </div>
+          )}
+          <AdminPairTable pairs={pairs} onChanged={reload} />
+          <AdminQuarantine entries={quarantine} onChanged={reload} />
+          <AdminEmergencyRates rates={emergencyRates} onChanged={reload} />
+          <AdminAuditLog entries={audit} />
+        </main>
+      )}
+    </div>
+  );
+};
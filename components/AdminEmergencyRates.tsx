@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { CurrencyCode, EmergencyRate } from '../types';
+import { resetEmergencyRate, setEmergencyRate } from '../services/adminApi';
+import { formatRate } from '../services/money';
+import { formatRelativeAge } from '../services/time';
+import { RotateCcw, Save } from 'lucide-react';
+
+interface AdminEmergencyRatesProps {
+  rates: EmergencyRate[];
+  onChanged: () => void;
+}
+
+// The last-resort table served when no live or stored rate exists
+export const AdminEmergencyRates: React.FC<AdminEmergencyRatesProps> = ({ rates, onChanged }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [busyPair, setBusyPair] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (pair: string, action: () => Promise<unknown>) => {
+    setBusyPair(pair);
+    setError(null);
+    try {
+      await action();
+      setDrafts(({ [pair]: _, ...rest }) => rest);
+      onChanged();
+    } catch (err) {
+      setError(`${pair}: ${(err as Error).message}`);
+    } finally {
+      setBusyPair(null);
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider mb-1">Emergency rates</h2>
+      <p className="text-xs text-slate-500 mb-3">
+        Served only when a pair has no live or stored quote. Edits apply within a minute; resetting restores the built-in rate.
+      </p>
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {rates.map(entry => {
+          const draft = drafts[entry.pair];
+          const changed = draft !== undefined && draft !== '' && Number(draft) !== entry.rate;
+          return (
+            <div key={entry.pair} className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm">
+              <span className="w-20 font-semibold text-slate-700">{entry.pair}</span>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={draft ?? String(entry.rate)}
+                onChange={e => setDrafts(current => ({ ...current, [entry.pair]: e.target.value }))}
+                className="w-28 px-2 py-1 border border-slate-200 rounded-md tabular-nums focus:outline-none focus:ring-2 focus:ring-green-500"
+                aria-label={`Emergency rate for ${entry.pair}`}
+              />
+              <span
+                className="flex-1 text-[11px] text-slate-400 truncate"
+                title={entry.origin === 'db' ? `${formatRate(entry.rate, entry.pair.split('-')[1] as CurrencyCode)} set by ${entry.updatedBy}` : undefined}
+              >
+                {entry.origin === 'db' && entry.updatedAt ? `edited ${formatRelativeAge(entry.updatedAt)}` : 'built-in'}
+              </span>
+              {changed && (
+                <button
+                  onClick={() => run(entry.pair, () => setEmergencyRate(entry.pair, Number(draft)))}
+                  disabled={busyPair === entry.pair}
+                  className="p-1 rounded-md text-green-600 hover:bg-green-50 disabled:opacity-50"
+                  title="Save"
+                >
+                  <Save size={14} />
+                </button>
+              )}
+              {entry.origin === 'db' && !changed && (
+                <button
+                  onClick={() => run(entry.pair, () => resetEmergencyRate(entry.pair))}
+                  disabled={busyPair === entry.pair}
+                  className="p-1 rounded-md text-slate-400 hover:bg-slate-100 disabled:opacity-50"
+                  title="Reset to built-in"
+                >
+                  <RotateCcw size={14} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { AdminPairStatus, CurrencyCode } from '../types';
+import { AdminApiError, clearOverride, createOverride, forceRefresh } from '../services/adminApi';
+import { ORIGIN_LABELS } from '../services/provenance';
+import { formatRate } from '../services/money';
+import { formatRelativeAge } from '../services/time';
+import { Pin, RefreshCw, X } from 'lucide-react';
+
+interface AdminPairTableProps {
+  pairs: AdminPairStatus[];
+  onChanged: () => void;
+}
+
+const EXPIRY_OPTIONS_HOURS = [1, 6, 24, 72, 168];
+
+const targetOf = (pair: string) => pair.split('-')[1] as CurrencyCode;
+
+const rateText = (pair: string, rate: number | undefined) => (rate ? formatRate(rate, targetOf(pair)) : '—');
+
+interface OverrideFormProps {
+  status: AdminPairStatus;
+  onDone: (message?: string) => void;
+}
+
+const OverrideForm: React.FC<OverrideFormProps> = ({ status, onDone }) => {
+  const [officialRate, setOfficialRate] = useState(status.stored?.officialRate?.rate?.toString() ?? '');
+  const [parallelRate, setParallelRate] = useState(status.stored?.parallelRate?.rate?.toString() ?? '');
+  const [hours, setHours] = useState(6);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await createOverride({
+        pair: status.pair,
+        officialRate: officialRate ? Number(officialRate) : undefined,
+        parallelRate: parallelRate ? Number(parallelRate) : undefined,
+        note,
+        expiresAt: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+      });
+      onDone(`Pinned ${status.pair} for ${hours}h`);
+    } catch (err) {
+      setError((err as Error).message);
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-amber-50 border-t border-amber-100 grid gap-3 sm:grid-cols-5 items-end text-xs">
+      <label className="space-y-1">
+        <span className="font-semibold text-slate-600">Official</span>
+        <input type="number" step="any" min="0" value={officialRate} onChange={e => setOfficialRate(e.target.value)} className={`${inputClass} w-full`} />
+      </label>
+      <label className="space-y-1">
+        <span className="font-semibold text-slate-600">Parallel</span>
+        <input type="number" step="any" min="0" value={parallelRate} onChange={e => setParallelRate(e.target.value)} className={`${inputClass} w-full`} />
+      </label>
+      <label className="space-y-1">
+        <span className="font-semibold text-slate-600">Expires in</span>
+        <select value={hours} onChange={e => setHours(Number(e.target.value))} className={`${inputClass} w-full bg-white`}>
+          {EXPIRY_OPTIONS_HOURS.map(option => (
+            <option key={option} value={option}>{option < 24 ? `${option} h` : `${option / 24} d`}</option>
+          ))}
+        </select>
+      </label>
+      <label className="space-y-1 sm:col-span-2">
+        <span className="font-semibold text-slate-600">Note (why, and the source you checked)</span>
+        <input type="text" required maxLength={500} value={note} onChange={e => setNote(e.target.value)} className={`${inputClass} w-full`} />
+      </label>
+      <div className="sm:col-span-5 flex items-center gap-3">
+        <button type="submit" disabled={busy} className="px-3 py-1.5 bg-amber-600 text-white font-semibold rounded-lg hover:bg-amber-700 disabled:opacity-50">
+          Pin rate
+        </button>
+        <button type="button" onClick={() => onDone()} className="px-3 py-1.5 text-slate-500 hover:text-slate-700">Cancel</button>
+        {error && <span className="text-red-600">{error}</span>}
+      </div>
+    </form>
+  );
+};
+
+// Cached row per canonical pair, with force-refresh and manual overrides
+export const AdminPairTable: React.FC<AdminPairTableProps> = ({ pairs, onChanged }) => {
+  const [busyPair, setBusyPair] = useState<string | null>(null);
+  const [editingPair, setEditingPair] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRefresh = async (pair: string) => {
+    setBusyPair(pair);
+    setMessage(null);
+    try {
+      const result = await forceRefresh(pair);
+      setMessage(`${pair} refreshed: ${rateText(pair, result.rate)}`);
+    } catch (err) {
+      const issues = err instanceof AdminApiError && err.issues;
+      setMessage(issues ? `${pair} quote quarantined: ${issues.map(issue => issue.message).join('; ')}` : (err as Error).message);
+    } finally {
+      setBusyPair(null);
+      onChanged();
+    }
+  };
+
+  const handleClear = async (id: number, pair: string) => {
+    setBusyPair(pair);
+    try {
+      await clearOverride(id);
+      setMessage(`Override on ${pair} cleared`);
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setBusyPair(null);
+      onChanged();
+    }
+  };
+
+  const handleOverrideDone = (result?: string) => {
+    setEditingPair(null);
+    if (result) {
+      setMessage(result);
+      onChanged();
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider mb-3">Pairs</h2>
+      {message && <p className="mb-3 text-sm text-slate-600">{message}</p>}
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-xs text-slate-500 text-left">
+            <tr>
+              <th className="px-4 py-2">Pair</th>
+              <th className="px-4 py-2">Official</th>
+              <th className="px-4 py-2">Parallel</th>
+              <th className="px-4 py-2">Stored</th>
+              <th className="px-4 py-2">Emergency</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          {pairs.map(status => {
+            const { pair, stored, override, emergency } = status;
+            return (
+              <tbody key={pair} className="border-t border-slate-100">
+                <tr className={override ? 'bg-amber-50/50' : ''}>
+                  <td className="px-4 py-2 font-semibold text-slate-800">
+                    {pair}
+                    {status.pendingQuarantine > 0 && (
+                      <span className="ml-2 text-[10px] px-1.5 py-0.5 bg-red-100 text-red-700 rounded-full">{status.pendingQuarantine} quarantined</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 tabular-nums">{rateText(pair, stored?.officialRate?.rate)}</td>
+                  <td className="px-4 py-2 tabular-nums">{rateText(pair, stored?.parallelRate?.rate)}</td>
+                  <td className="px-4 py-2 text-xs text-slate-500">
+                    {stored ? `${ORIGIN_LABELS[stored.origin]}, ${formatRelativeAge(stored.fetchedAt)}${stored.provider ? ` via ${stored.provider}` : ''}` : 'Never fetched'}
+                  </td>
+                  <td className="px-4 py-2 tabular-nums text-slate-500">{rateText(pair, emergency?.rate)}</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleRefresh(pair)}
+                      disabled={busyPair === pair}
+                      className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-50"
+                      title="Force refresh from providers"
+                    >
+                      <RefreshCw size={14} className={busyPair === pair ? 'animate-spin' : ''} />
+                    </button>
+                    <button
+                      onClick={() => setEditingPair(editingPair === pair ? null : pair)}
+                      className="p-1.5 rounded-lg text-amber-600 hover:bg-amber-50"
+                      title="Pin a manual rate"
+                    >
+                      <Pin size={14} />
+                    </button>
+                  </td>
+                </tr>
+                {override && (
+                  <tr className="bg-amber-50/50 text-xs text-amber-800">
+                    <td colSpan={6} className="px-4 pb-2">
+                      <span className="font-semibold">Pinned</span> official {rateText(pair, override.officialRate)}, parallel{' '}
+                      {rateText(pair, override.parallelRate)} by {override.createdBy}, expires{' '}
+                      {new Date(override.expiresAt).toLocaleString()}: “{override.note}”
+                      <button
+                        onClick={() => handleClear(override.id, pair)}
+                        disabled={busyPair === pair}
+                        className="ml-2 inline-flex items-center gap-0.5 font-semibold hover:underline"
+                      >
+                        <X size={12} /> Clear
+                      </button>
+                    </td>
+                  </tr>
+                )}
+                {editingPair === pair && (
+                  <tr>
+                    <td colSpan={6} className="p-0">
+                      <OverrideForm status={status} onDone={handleOverrideDone} />
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            );
+          })}
+        </table>
+      </div>
+    </section>
+  );
+};
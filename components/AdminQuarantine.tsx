@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { CurrencyCode, QuarantinedRate } from '../types';
+import { reviewQuarantinedRate } from '../services/adminApi';
+import { formatRate } from '../services/money';
+import { formatRelativeAge } from '../services/time';
+import { Check, X } from 'lucide-react';
+
+interface AdminQuarantineProps {
+  entries: QuarantinedRate[];
+  onChanged: () => void;
+}
+
+// Review queue for quotes the sanity checks held back
+export const AdminQuarantine: React.FC<AdminQuarantineProps> = ({ entries, onChanged }) => {
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const review = async (id: number, decision: 'approve' | 'reject') => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await reviewQuarantinedRate(id, decision, notes[id]);
+      onChanged();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider mb-3">
+        Quarantine <span className="font-normal text-slate-400">({entries.length} pending)</span>
+      </h2>
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400">No quotes waiting for review.</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(entry => {
+            const to = entry.pair.split('-')[1] as CurrencyCode;
+            const { officialRate, parallelRate, provider } = entry.candidate;
+            return (
+              <li key={entry.id} className="p-4 bg-white border border-red-100 rounded-xl text-sm">
+                <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                  <span className="font-semibold text-slate-800">{entry.pair}</span>
+                  <span className="tabular-nums text-slate-600">
+                    official {officialRate ? formatRate(officialRate.rate, to) : '—'}, parallel {parallelRate ? formatRate(parallelRate.rate, to) : '—'}
+                  </span>
+                  <span className="text-xs text-slate-400">
+                    {provider ? `via ${provider}, ` : ''}{formatRelativeAge(entry.createdAt)}
+                  </span>
+                </div>
+                <ul className="mt-2 list-disc list-inside text-xs text-red-700">
+                  {entry.issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+                </ul>
+                <div className="mt-3 flex items-center gap-2">
+                  <input
+                    type="text"
+                    maxLength={500}
+                    value={notes[entry.id] ?? ''}
+                    onChange={e => setNotes(current => ({ ...current, [entry.id]: e.target.value }))}
+                    placeholder="Review note"
+                    className="flex-1 px-2 py-1 border border-slate-200 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                  <button
+                    onClick={() => review(entry.id, 'approve')}
+                    disabled={busyId === entry.id}
+                    className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-green-700 bg-green-50 rounded-md hover:bg-green-100 disabled:opacity-50"
+                  >
+                    <Check size={12} /> Approve
+                  </button>
+                  <button
+                    onClick={() => review(entry.id, 'reject')}
+                    disabled={busyId === entry.id}
+                    className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+                  >
+                    <X size={12} /> Reject
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
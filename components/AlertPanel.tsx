@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { CurrencyCode, Market } from '../types';
+import { AlertCondition, AlertTrigger, RateAlert, describeAlert } from '../services/alerts';
+import { alertStore } from '../services/alertStore';
+import { MARKET_LABELS } from '../services/markets';
+import { Bell, BellOff, BellRing, Plus, Trash2 } from 'lucide-react';
+
+interface AlertPanelProps {
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  market: Market;
+  currentRate: number | null;
+  // Most recent triggers from the background poller; a change reloads the list
+  recentTriggers: AlertTrigger[];
+}
+
+const CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: 'Rises above',
+  below: 'Falls below',
+  'percent-change': 'Moves by %',
+};
+
+export const AlertPanel: React.FC<AlertPanelProps> = ({ fromCurrency, toCurrency, market, currentRate, recentTriggers }) => {
+  const [alerts, setAlerts] = useState<RateAlert[]>([]);
+  const [condition, setCondition] = useState<AlertCondition>('above');
+  const [threshold, setThreshold] = useState<string>('');
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+
+  const reload = () => {
+    alertStore.list().then(setAlerts).catch(err => console.warn('Failed to load alerts', err));
+  };
+
+  useEffect(reload, [recentTriggers]);
+
+  const handleAdd = async () => {
+    const value = parseFloat(threshold);
+    if (!(value > 0)) return;
+
+    await alertStore.save({
+      id: crypto.randomUUID(),
+      from: fromCurrency,
+      to: toCurrency,
+      market,
+      condition,
+      threshold: value,
+      baselineRate: condition === 'percent-change' && currentRate ? currentRate : undefined,
+      createdAt: new Date().toISOString(),
+      enabled: true,
+    });
+    setThreshold('');
+    reload();
+  };
+
+  const handleToggle = async (alert: RateAlert) => {
+    await alertStore.save({ ...alert, enabled: !alert.enabled });
+    reload();
+  };
+
+  const handleDelete = async (id: string) => {
+    await alertStore.remove(id);
+    reload();
+  };
+
+  const requestPermission = async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-3xl shadow-xl border border-slate-100 p-6 w-full max-w-lg mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Bell size={16} />
+          Rate Alerts
+        </h3>
+        {permission === 'default' && (
+          <button onClick={requestPermission} className="text-xs font-semibold text-green-600 hover:text-green-700">
+            Enable notifications
+          </button>
+        )}
+        {permission === 'denied' && (
+          <span className="text-xs text-slate-400">Notifications blocked in browser</span>
+        )}
+      </div>
+
+      {/* New alert form */}
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-sm font-semibold text-slate-600 shrink-0">
+          {fromCurrency}/{toCurrency}
+          <span className="ml-1 text-xs font-normal text-slate-400">{MARKET_LABELS[market]}</span>
+        </span>
+        <select
+          value={condition}
+          onChange={(e) => setCondition(e.target.value as AlertCondition)}
+          className="text-sm bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:border-green-500"
+        >
+          {(Object.keys(CONDITION_LABELS) as AlertCondition[]).map(c => (
+            <option key={c} value={c}>{CONDITION_LABELS[c]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          placeholder={condition === 'percent-change' ? '2' : currentRate ? currentRate.toFixed(2) : '0.00'}
+          className="w-full min-w-0 text-sm bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:border-green-500"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!(parseFloat(threshold) > 0)}
+          className="p-2 rounded-lg bg-green-50 text-green-600 hover:bg-green-100 disabled:bg-slate-100 disabled:text-slate-300"
+          title="Add alert"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {/* Alert list */}
+      {alerts.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-2">No alerts yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {alerts.map(alert => {
+            const fired = recentTriggers.some(t => t.alert.id === alert.id);
+            return (
+              <li
+                key={alert.id}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-sm ${fired ? 'bg-amber-50 border-amber-200' : 'bg-slate-50 border-slate-100'}`}
+              >
+                {fired ? <BellRing size={14} className="text-amber-500 shrink-0" /> : <Bell size={14} className="text-slate-400 shrink-0" />}
+                <span className={`flex-1 ${alert.enabled ? 'text-slate-700' : 'text-slate-400 line-through'}`}>
+                  {describeAlert(alert)}
+                  {alert.lastTriggeredAt && (
+                    <span className="block text-xs text-slate-400">
+                      Last fired {new Date(alert.lastTriggeredAt).toLocaleString()}
+                    </span>
+                  )}
+                </span>
+                <button
+                  onClick={() => handleToggle(alert)}
+                  className="p-1 text-slate-400 hover:text-slate-600"
+                  title={alert.enabled ? 'Pause alert' : 'Resume alert'}
+                >
+                  {alert.enabled ? <BellOff size={14} /> : <Bell size={14} />}
+                </button>
+                <button
+                  onClick={() => handleDelete(alert.id)}
+                  className="p-1 text-slate-400 hover:text-red-600"
+                  title="Delete alert"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CurrencyCode, Market, RateSnapshot, SUPPORTED_CURRENCIES } from '../types';
+import { fetchRateSnapshot } from '../services/api';
+import { MARKET_LABELS } from '../services/markets';
+import { formatMoney, formatRate, parseDecimal } from '../services/money';
+import { formatRelativeAge } from '../services/time';
+import {
+  ConversionResult,
+  convertBatch,
+  convertToAll,
+  parseBatchCsv,
+  resultsToCsv
+} from '../services/batchConversion';
+import { CurrencyPicker } from './CurrencyPicker';
+import { Download, RefreshCw, Table, Upload } from 'lucide-react';
+
+interface BatchConverterProps {
+  defaultFrom: CurrencyCode;
+  market: Market;
+}
+
+type Mode = 'multi' | 'batch';
+
+const BATCH_PLACEHOLDER = 'amount,from,to\n2500000,NGN,USD\n1200,GBP,NGN\n"15,000",USD,KES';
+
+const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const BatchConverter: React.FC<BatchConverterProps> = ({ defaultFrom, market }) => {
+  const [mode, setMode] = useState<Mode>('multi');
+  const [snapshot, setSnapshot] = useState<RateSnapshot | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [amount, setAmount] = useState<string>('2500000');
+  const [from, setFrom] = useState<CurrencyCode>(defaultFrom);
+  const [csvText, setCsvText] = useState<string>('');
+
+  const loadSnapshot = () => {
+    setLoading(true);
+    setError(null);
+    fetchRateSnapshot()
+      .then(setSnapshot)
+      .catch(err => {
+        console.warn('Failed to load rate snapshot', err);
+        setError('Could not load rates for batch conversion.');
+      })
+      .finally(() => setLoading(false));
+  };
+
+  // The snapshot is taken once and reused until refreshed, so tables stay consistent
+  useEffect(loadSnapshot, []);
+
+  const parsed = useMemo(() => parseBatchCsv(csvText), [csvText]);
+
+  const results: ConversionResult[] = useMemo(() => {
+    if (!snapshot) return [];
+    if (mode === 'batch') return convertBatch(parsed.rows, snapshot, market);
+    const value = parseDecimal(amount);
+    return value ? convertToAll(value, from, snapshot, market) : [];
+  }, [snapshot, mode, parsed, amount, from, market]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setCsvText(await file.text());
+    e.target.value = '';
+  };
+
+  const handleExport = () => {
+    if (!snapshot) return;
+    const name = mode === 'multi' ? `nairasense-${from}-all` : 'nairasense-batch';
+    downloadCsv(`${name}-${snapshot.takenAt.slice(0, 10)}.csv`, resultsToCsv(results, snapshot, market));
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-3xl shadow-xl border border-slate-100 p-6 w-full max-w-lg mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Table size={16} />
+          Bulk Conversion
+        </h3>
+        <div className="flex bg-slate-100 rounded-lg p-0.5" role="radiogroup" aria-label="Conversion mode">
+          {(['multi', 'batch'] as Mode[]).map(m => (
+            <button
+              key={m}
+              role="radio"
+              aria-checked={mode === m}
+              onClick={() => setMode(m)}
+              className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${mode === m ? 'bg-white text-green-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {m === 'multi' ? 'All currencies' : 'CSV batch'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'multi' ? (
+        <div className="flex items-center gap-2 mb-4">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="w-full min-w-0 text-lg font-bold text-slate-800 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:border-green-500"
+            placeholder="0.00"
+          />
+          <CurrencyPicker selected={from} onChange={setFrom} />
+        </div>
+      ) : (
+        <div className="mb-4">
+          <textarea
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            placeholder={BATCH_PLACEHOLDER}
+            rows={5}
+            className="w-full text-sm font-mono bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:border-green-500"
+          />
+          <div className="flex items-center justify-between mt-1">
+            <label className="inline-flex items-center gap-1.5 text-xs font-semibold text-green-600 hover:text-green-700 cursor-pointer">
+              <Upload size={14} /> Upload CSV
+              <input type="file" accept=".csv,text/csv,text/plain" onChange={handleUpload} className="hidden" />
+            </label>
+            <span className="text-xs text-slate-400">Rows of amount, from, to</span>
+          </div>
+          {parsed.errors.length > 0 && (
+            <ul className="mt-2 text-xs text-red-600 space-y-0.5">
+              {parsed.errors.map(e => <li key={e.line}>Line {e.line}: {e.message}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Snapshot info and export */}
+      <div className="flex items-center justify-between mb-2 text-xs text-slate-400">
+        <span>
+          {snapshot
+            ? `${MARKET_LABELS[market]} rates as of ${formatRelativeAge(snapshot.takenAt)}`
+            : loading ? 'Loading rates…' : error}
+        </span>
+        <div className="flex items-center gap-3">
+          <button onClick={loadSnapshot} disabled={loading} className="inline-flex items-center gap-1 hover:text-slate-600" title="Take a new rate snapshot">
+            <RefreshCw size={12} className={loading ? 'animate-spin' : ''} /> Refresh
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={results.length === 0}
+            className="inline-flex items-center gap-1 font-semibold text-green-600 hover:text-green-700 disabled:text-slate-300"
+          >
+            <Download size={12} /> Export CSV
+          </button>
+        </div>
+      </div>
+
+      {results.length > 0 && (
+        <div className="max-h-80 overflow-y-auto border border-slate-100 rounded-xl">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-400 sticky top-0">
+              <tr>
+                {mode === 'batch' && <th className="text-right font-medium px-3 py-2">Amount</th>}
+                <th className="text-left font-medium px-3 py-2">{mode === 'batch' ? 'Pair' : 'Currency'}</th>
+                <th className="text-right font-medium px-3 py-2">Rate</th>
+                <th className="text-right font-medium px-3 py-2">Converted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r, i) => (
+                <tr key={`${r.from}-${r.to}-${i}`} className="border-t border-slate-100">
+                  {mode === 'batch' && (
+                    <td className="px-3 py-2 text-right text-slate-600">{SUPPORTED_CURRENCIES[r.from].symbol}{formatMoney(r.amount, r.from)}</td>
+                  )}
+                  <td className="px-3 py-2 text-slate-700">
+                    {mode === 'batch' ? `${r.from} → ${r.to}` : (
+                      <span className="flex items-center gap-2">
+                        <img src={SUPPORTED_CURRENCIES[r.to].flag} alt="" className="w-4 h-4 rounded-full object-cover" />
+                        {r.to}
+                        <span className="text-xs text-slate-400 truncate">{SUPPORTED_CURRENCIES[r.to].name}</span>
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-slate-500" title={r.origin ? `Origin: ${r.origin}` : undefined}>
+                    {r.rate !== undefined ? formatRate(r.rate, r.to) : '—'}
+                    {r.origin === 'emergency' && <span className="ml-1 text-amber-500">*</span>}
+                  </td>
+                  <td className="px-3 py-2 text-right font-semibold text-slate-800">
+                    {r.converted !== undefined ? `${SUPPORTED_CURRENCIES[r.to].symbol}${formatMoney(r.converted, r.to)}` : <span className="text-xs font-normal text-red-500">{r.error}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {results.some(r => r.origin === 'emergency') && (
+        <p className="mt-2 text-xs text-slate-400"><span className="text-amber-500">*</span> Estimated rate; no live quote was available.</p>
+      )}
+    </div>
+  );
+};
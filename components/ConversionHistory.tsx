@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { ConversionRecord, SUPPORTED_CURRENCIES } from '../types';
+import { matchesHistoryQuery } from '../services/conversionHistory';
+import { MARKET_LABELS } from '../services/markets';
+import { formatMoney, formatRate, parseDecimal } from '../services/money';
+import { formatRelativeAge } from '../services/time';
+import { History, Search, Trash2 } from 'lucide-react';
+
+interface ConversionHistoryProps {
+  records: ConversionRecord[];
+  onSelect: (record: ConversionRecord) => void;
+  onClear: () => void;
+}
+
+const formatAmount = (value: string, currency: ConversionRecord['from']) => {
+  const decimal = parseDecimal(value);
+  return `${SUPPORTED_CURRENCIES[currency].symbol}${decimal ? formatMoney(decimal, currency) : value}`;
+};
+
+// Past conversions at the rate they were done at, not today's
+export const ConversionHistory: React.FC<ConversionHistoryProps> = ({ records, onSelect, onClear }) => {
+  const [query, setQuery] = useState('');
+  const [confirmingClear, setConfirmingClear] = useState(false);
+
+  const matches = useMemo(() => records.filter(r => matchesHistoryQuery(r, query)), [records, query]);
+
+  const handleClear = () => {
+    if (!confirmingClear) {
+      setConfirmingClear(true);
+      return;
+    }
+    setConfirmingClear(false);
+    onClear();
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-3xl shadow-xl border border-slate-100 p-6 w-full max-w-lg mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <History size={16} />
+          Conversion History
+        </h3>
+        {records.length > 0 && (
+          <button
+            onClick={handleClear}
+            onBlur={() => setConfirmingClear(false)}
+            className="inline-flex items-center gap-1 text-xs font-semibold text-slate-400 hover:text-red-600"
+          >
+            <Trash2 size={12} /> {confirmingClear ? 'Really clear?' : 'Clear'}
+          </button>
+        )}
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-sm text-slate-400">Conversions you make appear here with the rate at the time.</p>
+      ) : (
+        <>
+          <div className="relative mb-3">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search by currency, amount, market or date"
+              className="w-full pl-8 pr-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:border-green-500"
+            />
+          </div>
+          {matches.length === 0 ? (
+            <p className="text-sm text-slate-400">No conversions match “{query}”.</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto divide-y divide-slate-100">
+              {matches.map(record => (
+                <li key={record.id}>
+                  <button
+                    onClick={() => onSelect(record)}
+                    className="w-full text-left py-2 flex items-baseline justify-between gap-3 hover:bg-slate-50 rounded-lg px-2"
+                    title="Convert this again at today's rate"
+                  >
+                    <span className="text-sm text-slate-700">
+                      {formatAmount(record.amount, record.from)} → <span className="font-semibold">{formatAmount(record.result, record.to)}</span>
+                      <span className="block text-xs text-slate-400">
+                        {MARKET_LABELS[record.market]} at {formatRate(record.rate, record.to)}
+                        {record.rateOrigin === 'emergency' && ' (estimated)'}
+                      </span>
+                    </span>
+                    <span className="shrink-0 text-xs text-slate-400" title={new Date(record.convertedAt).toLocaleString()}>
+                      {formatRelativeAge(record.convertedAt)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
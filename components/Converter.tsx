@@ -1,78 +1,70 @@
-import React, { useState } from 'react';
-import { CurrencyCode, ExchangeData, SUPPORTED_CURRENCIES } from '../types';
-import { ArrowRightLeft, RefreshCw, ChevronDown } from 'lucide-react';
+import React from 'react';
+import { CacheStatus, CurrencyCode, ExchangeData, Market, SUPPORTED_CURRENCIES } from '../types';
+import { ArrowRightLeft, RefreshCw, AlertTriangle, WifiOff } from 'lucide-react';
 import { SourceLinks } from './SourceLinks';
+import { ProvenanceBadge } from './ProvenanceBadge';
+import { CurrencyPicker } from './CurrencyPicker';
+import { ShareButton } from './ShareButton';
+import { RateHeadline } from './RateHeadline';
+import { formatRelativeAge } from '../services/time';
+import { MARKET_LABELS, getMarketRate, getParallelPremium, isMarketAvailable } from '../services/markets';
+import { convertAmount, formatMoney, formatRate, parseDecimal } from '../services/money';
+
+// Warn when the quotes behind the consensus rate differ by more than this (relative)
+const SOURCE_DISAGREEMENT_THRESHOLD = 0.03;
 
 interface ConverterProps {
   data: ExchangeData | null;
   loading: boolean;
   onRefresh: () => void;
-  lastUpdated: string | null;
   fromCurrency: CurrencyCode;
   toCurrency: CurrencyCode;
+  amount: string;
+  onAmountChange: (amount: string) => void;
   onFromChange: (code: CurrencyCode) => void;
   onToChange: (code: CurrencyCode) => void;
+  onPairSelect: (from: CurrencyCode, to: CurrencyCode) => void;
   onSwap: () => void;
+  market: Market;
+  onMarketChange: (market: Market) => void;
+  cacheStatus: CacheStatus | null;
 }
 
 export const Converter: React.FC<ConverterProps> = ({ 
   data, 
   loading, 
   onRefresh, 
-  lastUpdated,
   fromCurrency,
   toCurrency,
+  amount,
+  onAmountChange,
   onFromChange,
   onToChange,
-  onSwap
+  onPairSelect,
+  onSwap,
+  market,
+  onMarketChange,
+  cacheStatus
 }) => {
-  const [amount, setAmount] = useState<string>('1');
-
-  const rate = data?.rate || 0;
-  const parallelRate = data?.parallelRate;
-
-  // Helper for consistent formatting
-  const formatNumber = (num: number, minDecimals = 2, maxDecimals = 2) => {
-    // If number is very small (like inverted rates), show more precision
-    if (num > 0 && num < 1) {
-       return num.toLocaleString('en-US', { minimumFractionDigits: 4, maximumFractionDigits: 6 });
-    }
-    return num.toLocaleString('en-US', { minimumFractionDigits: minDecimals, maximumFractionDigits: maxDecimals });
-  };
+  // Fall back to the other market when the selected one wasn't quoted for this pair
+  const otherMarket: Market = market === 'parallel' ? 'official' : 'parallel';
+  const activeMarket: Market = !data || isMarketAvailable(data, market) ? market : otherMarket;
+  const inactiveMarket: Market = activeMarket === 'parallel' ? 'official' : 'parallel';
+
+  const rate = (data && getMarketRate(data, activeMarket)) || data?.rate || 0;
+  const inactiveRate = data ? getMarketRate(data, inactiveMarket) : undefined;
+  const premium = data ? getParallelPremium(data) : undefined;
+  const consensus = data?.consensus;
+  const sourcesDisagree = !!consensus && consensus.quoteCount > 1 && consensus.spread > SOURCE_DISAGREEMENT_THRESHOLD;
 
+  // Exact decimal conversion, rounded to the target currency's minor units
   const getConvertedAmount = () => {
-    const val = parseFloat(amount.replace(/,/g, ''));
-    if (isNaN(val) || !rate) return '---';
-    return formatNumber(val * rate);
+    const value = parseDecimal(amount);
+    if (!value || !rate) return '---';
+    return formatMoney(convertAmount(value, rate, toCurrency), toCurrency);
   };
 
-  const formattedRate = formatNumber(rate, 2, 4);
-  const formattedParallelRate = parallelRate ? formatNumber(parallelRate, 2, 2) : '';
-
-  const renderCurrencySelector = (selected: CurrencyCode, onChange: (c: CurrencyCode) => void) => (
-    <div className="relative group">
-      <div className="flex items-center gap-2 bg-white px-2 py-1.5 rounded-lg shadow-sm border border-slate-200 hover:border-green-300 transition-colors cursor-pointer">
-        <img 
-          src={SUPPORTED_CURRENCIES[selected].flag} 
-          alt={selected} 
-          className="w-5 h-5 rounded-full object-cover shadow-sm" 
-        />
-        <span className="font-semibold text-slate-700">{selected}</span>
-        <ChevronDown size={14} className="text-slate-400 group-hover:text-slate-600" />
-      </div>
-      <select 
-        value={selected}
-        onChange={(e) => onChange(e.target.value as CurrencyCode)}
-        className="absolute inset-0 opacity-0 cursor-pointer w-full h-full"
-      >
-        {Object.entries(SUPPORTED_CURRENCIES).map(([code, details]) => (
-          <option key={code} value={code}>
-            {code} - {details.name}
-          </option>
-        ))}
-      </select>
-    </div>
-  );
+  const formattedInactiveRate = inactiveRate ? formatRate(inactiveRate, toCurrency) : '';
 
   return (
     <div className="bg-white rounded-3xl shadow-xl border border-slate-100 p-6 md:p-8 w-full max-w-lg mx-auto relative overflow-visible">
@@ -80,41 +72,97 @@ export const Converter: React.FC<ConverterProps> = ({
       {/* Header Info */}
       <div className="flex justify-between items-start mb-8">
         <div>
-            <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-1">Current Rate</h2>
-            <div className="flex items-baseline gap-2 flex-wrap">
-                {loading ? (
-                    <div className="h-8 w-32 bg-slate-100 animate-pulse rounded"></div>
-                ) : (
-                    <span className="text-3xl font-bold text-slate-800">
-                        {SUPPORTED_CURRENCIES[toCurrency].symbol}{formattedRate} 
-                        <span className="text-lg text-slate-400 font-normal ml-1">
-                          / {SUPPORTED_CURRENCIES[fromCurrency].symbol}1
-                        </span>
-                    </span>
-                )}
+            <RateHeadline fromCurrency={fromCurrency} toCurrency={toCurrency} market={activeMarket} rate={rate} loading={loading} />
+            <div className="text-xs text-slate-400 mt-1 flex items-center gap-1 flex-wrap">
+               {data && !loading ? <ProvenanceBadge data={data} /> : 'Waiting for update...'}
+               {!loading && data?.confidence !== undefined && (
+                 <span className="text-slate-300">
+                   · {Math.round(data.confidence * 100)}% confidence
+                   {consensus && consensus.quoteCount > 1 ? ` (${consensus.quoteCount} sources)` : ''}
+                 </span>
+               )}
             </div>
-            <p className="text-xs text-slate-400 mt-1 flex items-center gap-1">
-               {lastUpdated ? `Updated: ${lastUpdated}` : 'Waiting for update...'}
-            </p>
 
-            {/* Parallel Rate Display */}
-            {!loading && parallelRate && parallelRate !== rate && (
+            {/* Offline / Cached Staleness Badge */}
+            {!loading && cacheStatus && (
+              <div className={`mt-2 inline-flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs font-medium ${cacheStatus.offline ? 'bg-slate-800 text-slate-100' : 'bg-amber-50 text-amber-800 border border-amber-100'}`}>
+                {cacheStatus.offline ? <WifiOff size={12} /> : <RefreshCw size={12} className={cacheStatus.revalidating ? 'animate-spin' : ''} />}
+                {cacheStatus.offline
+                  ? `Offline · last good rate from ${formatRelativeAge(cacheStatus.savedAt)}`
+                  : cacheStatus.revalidating
+                    ? `Saved rate from ${formatRelativeAge(cacheStatus.savedAt)} · refreshing…`
+                    : `Saved rate from ${formatRelativeAge(cacheStatus.savedAt)} · live update failed`}
+              </div>
+            )}
+
+            {/* Cross Rate Derivation */}
+            {!loading && data?.derivation && (
+              <p className="mt-1 text-xs text-slate-400" title={`Legs: ${data.derivation.legs.join(', ')}`}>
+                <span className="px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded-full font-medium">
+                  Derived via {data.derivation.via}
+                </span>
+              </p>
+            )}
+
+            {/* Source Disagreement Warning */}
+            {!loading && sourcesDisagree && (
+              <div className="mt-3 flex items-start gap-2 px-3 py-2 bg-amber-50 border border-amber-100 text-amber-800 rounded-lg text-xs">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                <span>
+                  Sources disagree by {(consensus!.spread * 100).toFixed(1)}% across {consensus!.quoteCount} quotes. Verify before trading.
+                </span>
+              </div>
+            )}
+
+            {/* Other Market Display */}
+            {!loading && inactiveRate && inactiveRate !== rate && (
               <div className="mt-3 inline-flex items-center gap-2 px-3 py-1.5 bg-slate-900 text-slate-50 rounded-lg shadow-sm transform transition-all hover:scale-[1.02]">
                 <div className="w-1.5 h-1.5 rounded-full bg-green-400 animate-pulse"></div>
                 <span className="text-xs font-medium tracking-wide">
-                  Parallel: {SUPPORTED_CURRENCIES[toCurrency].symbol}{formattedParallelRate}
+                  {MARKET_LABELS[inactiveMarket]}: {SUPPORTED_CURRENCIES[toCurrency].symbol}{formattedInactiveRate}
                 </span>
+                {premium !== undefined && (
+                  <span className="text-xs font-semibold text-amber-300">
+                    {(premium * 100).toFixed(1)}% premium
+                  </span>
+                )}
               </div>
             )}
         </div>
-        <button 
-            onClick={onRefresh}
-            disabled={loading}
-            className={`p-2.5 rounded-xl transition-all ${loading ? 'bg-slate-100 text-slate-300' : 'bg-green-50 text-green-600 hover:bg-green-100 active:scale-95'}`}
-            title="Refresh Rates"
-        >
-            <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
-        </button>
+        <div className="flex items-center gap-2 shrink-0">
+          <ShareButton data={loading ? null : data} state={{ from: fromCurrency, to: toCurrency, amount, market }} />
+          <button 
+              onClick={onRefresh}
+              disabled={loading}
+              className={`p-2.5 rounded-xl transition-all ${loading ? 'bg-slate-100 text-slate-300' : 'bg-green-50 text-green-600 hover:bg-green-100 active:scale-95'}`}
+              title="Refresh Rates"
+          >
+              <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {/* Market Toggle */}
+      <div className="flex bg-slate-100 rounded-xl p-1 mb-4" role="radiogroup" aria-label="Market">
+        {(['official', 'parallel'] as Market[]).map(m => {
+          const available = isMarketAvailable(data, m);
+          return (
+            <button
+              key={m}
+              role="radio"
+              aria-checked={activeMarket === m}
+              disabled={!available}
+              onClick={() => onMarketChange(m)}
+              className={`flex-1 py-1.5 text-sm font-semibold rounded-lg transition-colors ${
+                activeMarket === m
+                  ? 'bg-white text-green-700 shadow-sm'
+                  : available ? 'text-slate-500 hover:text-slate-700' : 'text-slate-300 cursor-not-allowed'
+              }`}
+            >
+              {MARKET_LABELS[m]}
+            </button>
+          );
+        })}
       </div>
 
       {/* Calculator Inputs */}
@@ -124,18 +172,18 @@ export const Converter: React.FC<ConverterProps> = ({
         <div className="bg-slate-50 p-4 rounded-2xl border border-slate-200 focus-within:ring-2 focus-within:ring-green-500/20 focus-within:border-green-500 transition-all">
           <label className="text-xs text-slate-500 font-medium ml-1">Amount</label>
           <div className="flex items-center mt-1">
-            <span className="text-xl text-slate-400 font-medium mr-2 w-4 text-center">
+            <span className="text-xl text-slate-400 font-medium mr-2 min-w-[1rem] text-center">
                 {SUPPORTED_CURRENCIES[fromCurrency].symbol}
             </span>
             <input
               type="number"
               value={amount}
-              onChange={(e) => setAmount(e.target.value)}
+              onChange={(e) => onAmountChange(e.target.value)}
               className="bg-transparent text-3xl font-bold text-slate-800 w-full focus:outline-none placeholder-slate-300"
               placeholder="0.00"
             />
             <div className="ml-2 shrink-0">
-              {renderCurrencySelector(fromCurrency, onFromChange)}
+              <CurrencyPicker selected={fromCurrency} onChange={onFromChange} onPairSelect={onPairSelect} />
             </div>
           </div>
         </div>
@@ -156,7 +204,7 @@ export const Converter: React.FC<ConverterProps> = ({
           <label className="text-xs text-green-700 font-medium ml-1">Converted Amount</label>
           <div className="flex items-center mt-1 justify-between">
             <div className="flex items-center w-full">
-                <span className="text-xl text-green-600/60 font-medium mr-2 w-4 text-center">
+                <span className="text-xl text-green-600/60 font-medium mr-2 min-w-[1rem] text-center">
                     {SUPPORTED_CURRENCIES[toCurrency].symbol}
                 </span>
                 <span className="text-3xl font-bold text-green-800 break-all">
@@ -164,14 +212,14 @@ export const Converter: React.FC<ConverterProps> = ({
                 </span>
             </div>
             <div className="ml-2 shrink-0">
-               {renderCurrencySelector(toCurrency, onToChange)}
+               <CurrencyPicker selected={toCurrency} onChange={onToChange} onPairSelect={onPairSelect} />
             </div>
           </div>
         </div>
       </div>
 
       {/* Grounding Sources */}
-      {data?.sources && <SourceLinks sources={data.sources} />}
+      {data?.sources && <SourceLinks sources={data.sources} toCurrency={toCurrency} lowTrust={data.sourceTrust?.lowTrust} />}
     </div>
   );
 };
\ No newline at end of file
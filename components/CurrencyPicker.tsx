@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CurrencyCode, SUPPORTED_CURRENCIES } from '../types';
+import {
+  CurrencyEntry,
+  CurrencyPair,
+  loadFavouriteCurrencies,
+  loadRecentPairs,
+  searchCurrencies,
+  toggleFavouriteCurrency,
+} from '../services/currencyCatalog';
+import { ChevronDown, Search, Star, History } from 'lucide-react';
+
+interface CurrencyPickerProps {
+  selected: CurrencyCode;
+  onChange: (code: CurrencyCode) => void;
+  // When provided, recently used pairs are offered and pick both sides at once
+  onPairSelect?: (from: CurrencyCode, to: CurrencyCode) => void;
+}
+
+export const CurrencyPicker: React.FC<CurrencyPickerProps> = ({ selected, onChange, onPairSelect }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>('');
+  const [favourites, setFavourites] = useState<CurrencyCode[]>([]);
+  const [recentPairs, setRecentPairs] = useState<CurrencyPair[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Reload persisted lists on open so both pickers stay in sync
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    setFavourites(loadFavouriteCurrencies());
+    setRecentPairs(loadRecentPairs());
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [open]);
+
+  const select = (code: CurrencyCode) => {
+    onChange(code);
+    setOpen(false);
+  };
+
+  const results = searchCurrencies(query);
+  const favouriteResults = query ? [] : results.filter(c => favourites.includes(c.code));
+  const otherResults = query ? results : results.filter(c => !favourites.includes(c.code));
+
+  const renderRow = (c: CurrencyEntry) => (
+    <li key={c.code}>
+      <div
+        className={`flex items-center gap-2 px-3 py-2 cursor-pointer hover:bg-green-50 ${c.code === selected ? 'bg-green-50/60' : ''}`}
+        onClick={() => select(c.code)}
+      >
+        <img src={c.flag} alt={c.code} className="w-5 h-5 rounded-full object-cover shadow-sm" />
+        <span className="font-semibold text-slate-700 w-10">{c.code}</span>
+        <span className="text-sm text-slate-500 truncate flex-1">{c.name}</span>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setFavourites(toggleFavouriteCurrency(c.code));
+          }}
+          className="p-1 text-slate-300 hover:text-amber-500"
+          title={favourites.includes(c.code) ? 'Remove from favourites' : 'Add to favourites'}
+        >
+          <Star size={14} className={favourites.includes(c.code) ? 'fill-amber-400 text-amber-400' : ''} />
+        </button>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 bg-white px-2 py-1.5 rounded-lg shadow-sm border border-slate-200 hover:border-green-300 transition-colors"
+      >
+        <img
+          src={SUPPORTED_CURRENCIES[selected].flag}
+          alt={selected}
+          className="w-5 h-5 rounded-full object-cover shadow-sm"
+        />
+        <span className="font-semibold text-slate-700">{selected}</span>
+        <ChevronDown size={14} className="text-slate-400" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-xl border border-slate-200 z-30 overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-100">
+            <Search size={14} className="text-slate-400" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && results.length > 0) select(results[0].code);
+              }}
+              placeholder="Search by code, name or region"
+              className="w-full text-sm focus:outline-none placeholder-slate-300"
+            />
+          </div>
+
+          <div className="max-h-72 overflow-y-auto">
+            {!query && onPairSelect && recentPairs.length > 0 && (
+              <div className="py-1 border-b border-slate-100">
+                <p className="px-3 py-1 text-[10px] font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+                  <History size={10} /> Recent pairs
+                </p>
+                <div className="flex flex-wrap gap-1.5 px-3 pb-2">
+                  {recentPairs.map(p => (
+                    <button
+                      key={`${p.from}-${p.to}`}
+                      onClick={() => {
+                        onPairSelect(p.from, p.to);
+                        setOpen(false);
+                      }}
+                      className="px-2 py-0.5 text-xs font-medium bg-slate-100 hover:bg-green-100 text-slate-600 rounded-full"
+                    >
+                      {p.from} → {p.to}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {favouriteResults.length > 0 && (
+              <div className="py-1 border-b border-slate-100">
+                <p className="px-3 py-1 text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Favourites</p>
+                <ul>{favouriteResults.map(renderRow)}</ul>
+              </div>
+            )}
+
+            {otherResults.length > 0 && (
+              <ul className="py-1">{otherResults.map(renderRow)}</ul>
+            )}
+            {query && results.length === 0 && (
+              <p className="px-3 py-4 text-sm text-slate-400 text-center">No currencies match "{query}"</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
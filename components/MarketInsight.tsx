@@ -1,13 +1,73 @@
-import React from 'react';
-import { TrendingUp, Info } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { AnalysisPoint, CurrencyCode, MarketAnalysis, SUPPORTED_CURRENCIES } from '../types';
+import { fetchMarketAnalysis } from '../services/api';
+import { formatRate } from '../services/money';
+import { formatRelativeAge } from '../services/time';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 
 interface MarketInsightProps {
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  // One-line summary from the rate fetch, shown until (or instead of) the full analysis
   summary: string;
   loading: boolean;
 }
 
-export const MarketInsight: React.FC<MarketInsightProps> = ({ summary, loading }) => {
-  if (loading) {
+const Citations: React.FC<{ citations: AnalysisPoint['citations'] }> = ({ citations }) => (
+  <span className="inline-flex flex-wrap gap-1 ml-1 align-middle">
+    {citations.map(source => (
+      <a
+        key={source.uri}
+        href={source.uri}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={source.title}
+        className="text-[10px] px-1.5 py-0.5 bg-white/70 border border-blue-100 text-blue-700 rounded-full hover:bg-white"
+      >
+        {source.trust?.domain || source.title}
+      </a>
+    ))}
+  </span>
+);
+
+const PointList: React.FC<{ points: AnalysisPoint[] }> = ({ points }) => (
+  <ul className="space-y-2">
+    {points.map(point => (
+      <li key={point.heading} className="text-sm text-blue-800/80 leading-relaxed">
+        <span className="font-semibold text-blue-900">{point.heading}.</span> {point.detail}
+        {point.citations.length > 0 && <Citations citations={point.citations} />}
+      </li>
+    ))}
+  </ul>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mt-4">
+    <h4 className="text-xs font-semibold text-blue-900/60 uppercase tracking-wider mb-2">{title}</h4>
+    {children}
+  </section>
+);
+
+export const MarketInsight: React.FC<MarketInsightProps> = ({ fromCurrency, toCurrency, summary, loading }) => {
+  const [analysis, setAnalysis] = useState<MarketAnalysis | null>(null);
+  const [analysisLoading, setAnalysisLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAnalysis(null);
+    setAnalysisLoading(true);
+    fetchMarketAnalysis(fromCurrency, toCurrency)
+      .then(result => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch(err => console.warn('Market analysis unavailable', err))
+      .finally(() => {
+        if (!cancelled) setAnalysisLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [fromCurrency, toCurrency]);
+
+  if (loading || (analysisLoading && !summary)) {
     return (
       <div className="animate-pulse space-y-2 mt-6 p-4 bg-blue-50/50 rounded-xl border border-blue-100">
         <div className="h-4 bg-blue-100 rounded w-1/4 mb-4"></div>
@@ -17,26 +77,74 @@ export const MarketInsight: React.FC<MarketInsightProps> = ({ summary, loading }
     );
   }
 
-  if (!summary) return null;
+  if (!analysis && !summary) return null;
+
+  const toSymbol = SUPPORTED_CURRENCIES[toCurrency].symbol;
 
   return (
     <div className="mt-6 p-5 bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl border border-blue-100 shadow-sm relative overflow-hidden">
       <div className="absolute top-0 right-0 -mt-2 -mr-2 w-16 h-16 bg-blue-100 rounded-full opacity-20 pointer-events-none"></div>
-      
+
       <div className="flex items-start gap-3 relative z-10">
         <div className="p-2 bg-blue-100 text-blue-600 rounded-lg shrink-0">
           <TrendingUp size={20} />
         </div>
-        <div>
+        <div className="min-w-0 flex-1">
           <h3 className="text-sm font-bold text-blue-900 mb-1 flex items-center gap-2">
             Market Insight
             <span className="text-[10px] font-normal px-1.5 py-0.5 bg-blue-200 text-blue-800 rounded-full">AI Analysis</span>
           </h3>
-          <p className="text-sm text-blue-800/80 leading-relaxed">
-            {summary}
+
+          {!analysis ? (
+            <p className="text-sm text-blue-800/80 leading-relaxed">
+              {summary}
+            </p>
+          ) : (
+            <>
+              {analysis.movement.length > 0 && (
+                <Section title="Recent movement">
+                  <div className="grid grid-cols-3 gap-2">
+                    {analysis.movement.map(m => {
+                      const Icon = m.change > 0 ? TrendingUp : m.change < 0 ? TrendingDown : Minus;
+                      return (
+                        <div key={m.period} className="px-3 py-2 bg-white/70 rounded-lg border border-blue-100" title={`${toSymbol}${formatRate(m.startRate, toCurrency)} → ${toSymbol}${formatRate(m.endRate, toCurrency)}`}>
+                          <div className="text-[10px] text-blue-900/50 uppercase">{m.period}</div>
+                          <div className="flex items-center gap-1 text-sm font-semibold text-blue-900">
+                            <Icon size={14} />
+                            {m.change > 0 ? '+' : ''}{(m.change * 100).toFixed(2)}%
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="mt-1 text-[11px] text-blue-900/50">
+                    Change in {fromCurrency}/{toCurrency} from our recorded rates.
+                  </p>
+                </Section>
+              )}
+
+              <Section title="Key drivers">
+                <PointList points={analysis.drivers} />
+              </Section>
+
+              {analysis.outlook.length > 0 && (
+                <Section title="Short-term outlook">
+                  <PointList points={analysis.outlook} />
+                </Section>
+              )}
+
+              <p className="mt-4 text-[11px] text-blue-900/50" title={new Date(analysis.generatedAt).toLocaleString()}>
+                Generated {formatRelativeAge(analysis.generatedAt)}{analysis.model ? ` by ${analysis.model}` : ''} from web sources.
+              </p>
+            </>
+          )}
+
+          <p className="mt-2 text-[11px] text-blue-900/50 italic">
+            AI-generated summary of public reporting, for information only. It is not financial advice or a
+            forecast; verify with official sources before making decisions.
           </p>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExchangeData } from '../types';
+import { formatRelativeAge } from '../services/time';
+import { Freshness, ORIGIN_LABELS, describeOrigin, getFreshness } from '../services/provenance';
+import { MARKET_LABELS } from '../services/markets';
+import { Info } from 'lucide-react';
+
+interface ProvenanceBadgeProps {
+  data: ExchangeData;
+}
+
+const FRESHNESS_STYLES: Record<Freshness, { dot: string; text: string }> = {
+  fresh: { dot: 'bg-green-500', text: 'text-green-700' },
+  aging: { dot: 'bg-amber-400', text: 'text-amber-700' },
+  stale: { dot: 'bg-red-500', text: 'text-red-700' },
+};
+
+// "Updated 4 min ago" with a freshness dot; clicking explains where the number came from.
+export const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ data }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const freshness = getFreshness(data);
+  const styles = FRESHNESS_STYLES[freshness];
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [open]);
+
+  const markets = [
+    data.officialRate && { label: MARKET_LABELS.official, updatedAt: data.officialRate.updatedAt },
+    data.parallelRate && { label: MARKET_LABELS.parallel, updatedAt: data.parallelRate.updatedAt },
+  ].filter((m): m is { label: string; updatedAt: string } => !!m);
+
+  return (
+    <div ref={containerRef} className="relative inline-block">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`inline-flex items-center gap-1.5 text-xs font-medium ${styles.text} hover:underline`}
+        aria-expanded={open}
+      >
+        <span className={`w-1.5 h-1.5 rounded-full ${styles.dot}`}></span>
+        {data.origin === 'emergency' ? 'Estimate' : `Updated ${formatRelativeAge(data.fetchedAt)}`}
+        <Info size={12} className="text-slate-300" />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-2 z-20 w-72 bg-white border border-slate-200 rounded-xl shadow-xl p-4 text-xs text-slate-600">
+          <p className={`font-semibold ${styles.text}`}>{ORIGIN_LABELS[data.origin]}</p>
+          <p className="mt-1 text-slate-500">{describeOrigin(data)}</p>
+
+          <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            <dt className="text-slate-400">Fetched</dt>
+            <dd>{new Date(data.fetchedAt).toLocaleString()}</dd>
+            {data.provider && (
+              <>
+                <dt className="text-slate-400">Source</dt>
+                <dd>{data.provider}{data.model ? ` (${data.model})` : ''}</dd>
+              </>
+            )}
+            {markets.map(m => (
+              <React.Fragment key={m.label}>
+                <dt className="text-slate-400">{m.label}</dt>
+                <dd>as of {new Date(m.updatedAt).toLocaleString()}</dd>
+              </React.Fragment>
+            ))}
+            {data.consensus && (
+              <>
+                <dt className="text-slate-400">Quotes</dt>
+                <dd>
+                  {data.consensus.quoteCount} used
+                  {data.consensus.rejectedCount > 0 ? `, ${data.consensus.rejectedCount} rejected as outliers` : ''}
+                </dd>
+              </>
+            )}
+            {data.derivation && (
+              <>
+                <dt className="text-slate-400">Legs</dt>
+                <dd>{data.derivation.legs.join(' × ')}</dd>
+              </>
+            )}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { CurrencyCode, ExchangeData, Market, SUPPORTED_CURRENCIES } from '../types';
+import { interpretQuery } from '../services/api';
+import { ConversionQuery, parseConversionQuery } from '../services/queryParser';
+import { MARKET_LABELS, getMarketRate, isMarketAvailable } from '../services/markets';
+import { convertAmount, formatMoney, parseDecimal } from '../services/money';
+import { Loader2, Search } from 'lucide-react';
+
+interface QueryBoxProps {
+  data: ExchangeData | null;
+  loading: boolean;
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  amount: string;
+  market: Market;
+  onApply: (query: ConversionQuery) => void;
+}
+
+const EXAMPLES = ['how much is 250 quid in naira at black market rate', '₦1.5m to usd', '40 bucks in cedis'];
+
+// Free-text conversions. Queries are read locally where possible; only ones the
+// parser cannot read go to the rate server. The result drives the converter
+// and is answered inline once the rate for the new pair has loaded.
+export const QueryBox: React.FC<QueryBoxProps> = ({ data, loading, fromCurrency, toCurrency, amount, market, onApply }) => {
+  const [text, setText] = useState('');
+  const [applied, setApplied] = useState<ConversionQuery | null>(null);
+  const [awaitingRate, setAwaitingRate] = useState(false);
+  const [interpreting, setInterpreting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rate data for the previous pair stays on screen until the new pair's arrives
+  useEffect(() => setAwaitingRate(false), [data]);
+
+  const apply = (query: ConversionQuery) => {
+    setApplied(query);
+    setAwaitingRate(query.from !== fromCurrency || query.to !== toCurrency);
+    onApply(query);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = text.trim();
+    if (!query) return;
+    setError(null);
+
+    const parsed = parseConversionQuery(query);
+    if (parsed) {
+      apply(parsed);
+      return;
+    }
+
+    setInterpreting(true);
+    try {
+      apply(await interpretQuery(query));
+    } catch (err) {
+      console.warn('Query could not be interpreted', err);
+      setApplied(null);
+      setError('Couldn’t read that. Try something like “250 quid in naira”.');
+    } finally {
+      setInterpreting(false);
+    }
+  };
+
+  // Only answer while the converter still shows what the query asked for
+  const current = applied && applied.from === fromCurrency && applied.to === toCurrency && applied.amount === amount;
+
+  const getAnswer = (): string | null => {
+    if (!current || !data || loading || awaitingRate) return null;
+    const activeMarket: Market = isMarketAvailable(data, market) ? market : market === 'parallel' ? 'official' : 'parallel';
+    const rate = getMarketRate(data, activeMarket) || data.rate;
+    const value = parseDecimal(amount);
+    if (!value || !rate) return null;
+    const fromSymbol = SUPPORTED_CURRENCIES[fromCurrency].symbol;
+    const toSymbol = SUPPORTED_CURRENCIES[toCurrency].symbol;
+    return `${fromSymbol}${formatMoney(value, fromCurrency)} ≈ ${toSymbol}${formatMoney(convertAmount(value, rate, toCurrency), toCurrency)} at the ${MARKET_LABELS[activeMarket].toLowerCase()} rate`;
+  };
+
+  const answer = getAnswer();
+
+  return (
+    <div className="w-full max-w-lg mx-auto mb-6">
+      <form onSubmit={handleSubmit} className="relative">
+        <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+        <input
+          type="text"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          maxLength={200}
+          placeholder={`Try “${EXAMPLES[0]}”`}
+          aria-label="Ask for a conversion"
+          className="w-full pl-11 pr-12 py-3 bg-white border border-slate-200 rounded-2xl shadow-sm text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        {interpreting && (
+          <Loader2 size={18} className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 animate-spin" />
+        )}
+      </form>
+
+      {error ? (
+        <p className="mt-2 px-2 text-xs text-red-600">{error}</p>
+      ) : current ? (
+        <p className="mt-2 px-2 text-sm text-slate-600" aria-live="polite">
+          {answer ?? <span className="text-slate-400">Looking up the {fromCurrency}/{toCurrency} rate…</span>}
+        </p>
+      ) : (
+        <p className="mt-2 px-2 text-xs text-slate-400">
+          Slang and shorthand work too: {EXAMPLES.slice(1).map(example => `“${example}”`).join(', ')}.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CurrencyCode, SUPPORTED_CURRENCIES } from '../types';
+import { HistoryInterval, RateCandle } from '../services/rateHistory';
+import { fetchRateHistory } from '../services/api';
+import { premiumBetween } from '../services/markets';
+import { formatRate } from '../services/money';
+import { LineChart } from 'lucide-react';
+
+type ChartRange = '24h' | '7d' | '30d' | '1y';
+
+const RANGES: Record<ChartRange, { durationMs: number; interval: HistoryInterval }> = {
+  '24h': { durationMs: 24 * 60 * 60 * 1000, interval: '1h' },
+  '7d': { durationMs: 7 * 24 * 60 * 60 * 1000, interval: '4h' },
+  '30d': { durationMs: 30 * 24 * 60 * 60 * 1000, interval: '1d' },
+  '1y': { durationMs: 365 * 24 * 60 * 60 * 1000, interval: '1w' },
+};
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 8, bottom: 20, left: 8 };
+
+interface RateChartProps {
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+}
+
+const formatBucket = (iso: string, range: ChartRange) => {
+  const date = new Date(iso);
+  return range === '24h'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { day: 'numeric', month: 'short', year: range === '1y' ? '2-digit' : undefined });
+};
+
+export const RateChart: React.FC<RateChartProps> = ({ fromCurrency, toCurrency }) => {
+  const [range, setRange] = useState<ChartRange>('7d');
+  const [candles, setCandles] = useState<RateCandle[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { durationMs, interval } = RANGES[range];
+    const to = new Date();
+
+    setLoading(true);
+    setHoverIndex(null);
+    fetchRateHistory(fromCurrency, toCurrency, new Date(to.getTime() - durationMs), to, interval)
+      .then(result => {
+        if (!cancelled) setCandles(result);
+      })
+      .catch(err => {
+        console.warn('Failed to load rate history', err);
+        if (!cancelled) setCandles([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [fromCurrency, toCurrency, range]);
+
+  // Project candle closes onto SVG coordinates
+  const chart = useMemo(() => {
+    if (candles.length === 0) return null;
+
+    const values = candles.flatMap(c => [c.officialRate?.close, c.parallelRate?.close].filter((v): v is number => v !== undefined));
+    if (values.length === 0) return null;
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const span = max - min || max * 0.01 || 1;
+
+    const x = (i: number) => candles.length === 1
+      ? WIDTH / 2
+      : PADDING.left + (i / (candles.length - 1)) * (WIDTH - PADDING.left - PADDING.right);
+    const y = (v: number) => PADDING.top + (1 - (v - min) / span) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+    const official = candles
+      .map((c, i) => c.officialRate ? `${x(i)},${y(c.officialRate.close)}` : null)
+      .filter((p): p is string => p !== null);
+    const parallel = candles
+      .map((c, i) => c.parallelRate ? `${x(i)},${y(c.parallelRate.close)}` : null)
+      .filter((p): p is string => p !== null);
+
+    // Premium area: parallel line forward, official line back, over candles that have both
+    const withBoth = candles.map((c, i) => ({ c, i })).filter(({ c }) => c.officialRate && c.parallelRate);
+    const premiumArea = withBoth.length > 1
+      ? [
+          ...withBoth.map(({ c, i }) => `${x(i)},${y(c.parallelRate!.close)}`),
+          ...withBoth.reverse().map(({ c, i }) => `${x(i)},${y(c.officialRate!.close)}`),
+        ].join(' ')
+      : null;
+
+    return { x, y, official: official.join(' '), parallel: parallel.join(' '), premiumArea };
+  }, [candles]);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (candles.length === 0) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - bounds.left) / bounds.width;
+    const index = Math.round(ratio * (candles.length - 1));
+    setHoverIndex(Math.min(candles.length - 1, Math.max(0, index)));
+  };
+
+  const hovered = hoverIndex !== null ? candles[hoverIndex] : null;
+  const symbol = SUPPORTED_CURRENCIES[toCurrency].symbol;
+
+  return (
+    <div className="mt-6 bg-white rounded-3xl shadow-xl border border-slate-100 p-6 w-full max-w-lg mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <LineChart size={16} />
+          {fromCurrency}/{toCurrency} Trend
+        </h3>
+        <div className="flex bg-slate-100 rounded-lg p-0.5">
+          {(Object.keys(RANGES) as ChartRange[]).map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${range === r ? 'bg-white text-green-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-48 bg-slate-50 animate-pulse rounded-xl"></div>
+      ) : !chart ? (
+        <div className="h-48 flex items-center justify-center text-sm text-slate-400 bg-slate-50 rounded-xl">
+          No history recorded for this pair yet.
+        </div>
+      ) : (
+        <div className="relative">
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-48"
+            preserveAspectRatio="none"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHoverIndex(null)}
+          >
+            {chart.premiumArea && (
+              <polygon points={chart.premiumArea} className="fill-amber-200/40" />
+            )}
+            {chart.official && (
+              <polyline points={chart.official} fill="none" className="stroke-green-600" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            )}
+            {chart.parallel && (
+              <polyline points={chart.parallel} fill="none" className="stroke-slate-800" strokeWidth={2} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+            )}
+            {hoverIndex !== null && (
+              <line
+                x1={chart.x(hoverIndex)} x2={chart.x(hoverIndex)}
+                y1={PADDING.top} y2={HEIGHT - PADDING.bottom}
+                className="stroke-slate-300" strokeWidth={1} vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </svg>
+
+          {hovered && hoverIndex !== null && (
+            <div
+              className="absolute top-0 pointer-events-none bg-slate-900 text-slate-50 text-xs rounded-lg px-3 py-2 shadow-lg space-y-0.5"
+              style={{
+                left: `${(chart.x(hoverIndex) / WIDTH) * 100}%`,
+                transform: chart.x(hoverIndex) > WIDTH / 2 ? 'translateX(-100%)' : undefined,
+              }}
+            >
+              <div className="text-slate-400">{formatBucket(hovered.bucketStart, range)}</div>
+              {hovered.officialRate && (
+                <div>Official: {symbol}{formatRate(hovered.officialRate.close, toCurrency)}</div>
+              )}
+              {hovered.parallelRate && (
+                <div>Parallel: {symbol}{formatRate(hovered.parallelRate.close, toCurrency)}</div>
+              )}
+              {hovered.officialRate && hovered.parallelRate && (
+                <div className="text-amber-300">
+                  Premium: {(premiumBetween(hovered.officialRate.close, hovered.parallelRate.close) * 100).toFixed(1)}%
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+            <span>{formatBucket(candles[0].bucketStart, range)}</span>
+            <span>{formatBucket(candles[candles.length - 1].bucketStart, range)}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4 mt-3 text-xs text-slate-500">
+        <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-green-600"></span>Official</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-slate-800"></span>Parallel</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 h-2 bg-amber-200/60 rounded-sm"></span>Premium</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ColorTheme, CurrencyCode, Market, SUPPORTED_CURRENCIES } from '../types';
+import { MARKET_LABELS } from '../services/markets';
+import { formatRate } from '../services/money';
+
+interface RateHeadlineProps {
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  market: Market;
+  rate: number;
+  loading: boolean;
+  theme?: ColorTheme;
+}
+
+const THEME_STYLES: Record<ColorTheme, { label: string; value: string; unit: string; placeholder: string }> = {
+  light: { label: 'text-slate-400', value: 'text-slate-800', unit: 'text-slate-400', placeholder: 'bg-slate-100' },
+  dark: { label: 'text-slate-400', value: 'text-white', unit: 'text-slate-500', placeholder: 'bg-slate-700' },
+};
+
+// "Parallel Rate  ₦1,580.00 / $1", shared by the converter and the embeddable widget
+export const RateHeadline: React.FC<RateHeadlineProps> = ({ fromCurrency, toCurrency, market, rate, loading, theme = 'light' }) => {
+  const styles = THEME_STYLES[theme];
+  return (
+    <>
+      <h2 className={`text-sm font-semibold ${styles.label} uppercase tracking-wider mb-1`}>{MARKET_LABELS[market]} Rate</h2>
+      <div className="flex items-baseline gap-2 flex-wrap">
+        {loading ? (
+          <div className={`h-8 w-32 ${styles.placeholder} animate-pulse rounded`}></div>
+        ) : (
+          <span className={`text-3xl font-bold ${styles.value}`}>
+            {SUPPORTED_CURRENCIES[toCurrency].symbol}{formatRate(rate, toCurrency)}
+            <span className={`text-lg ${styles.unit} font-normal ml-1`}>
+              / {SUPPORTED_CURRENCIES[fromCurrency].symbol}1
+            </span>
+          </span>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { PublicRate } from '../types';
+import { fetchPublicRate } from '../services/api';
+import { WidgetConfig } from '../services/widgetConfig';
+import { buildShareUrl } from '../services/urlState';
+import { formatRelativeAge } from '../services/time';
+import { RateHeadline } from './RateHeadline';
+
+interface RateWidgetProps {
+  config: WidgetConfig;
+}
+
+// Stored rates only change on the server's refresh schedule; polling faster gains nothing
+const WIDGET_REFRESH_MS = 5 * 60 * 1000;
+
+// The converter's rate header on its own, for embedding on partner sites (widget.html)
+export const RateWidget: React.FC<RateWidgetProps> = ({ config }) => {
+  const [rate, setRate] = useState<PublicRate | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<boolean>(false);
+  const { from, to, theme } = config;
+
+  useEffect(() => {
+    const load = () =>
+      fetchPublicRate(from, to)
+        .then(result => {
+          setRate(result ?? null);
+          setError(!result);
+        })
+        .catch(err => {
+          console.warn('Widget rate fetch failed', err);
+          setError(true);
+        })
+        .finally(() => setLoading(false));
+
+    load();
+    const timer = setInterval(load, WIDGET_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [from, to]);
+
+  // Same fallback as the converter when the chosen market wasn't quoted
+  const marketRate = config.market === 'parallel' ? rate?.parallelRate : rate?.officialRate;
+  const market = rate && !marketRate ? (config.market === 'parallel' ? 'official' : 'parallel') : config.market;
+  const value = marketRate ?? rate?.rate ?? 0;
+
+  const appUrl = buildShareUrl({ from, to, amount: '1', market }, new URL('/', window.location.href).href);
+  const dark = theme === 'dark';
+
+  return (
+    <div className={`h-full p-4 rounded-2xl border ${dark ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-100'}`}>
+      {error && !rate ? (
+        <p className={`text-sm ${dark ? 'text-slate-400' : 'text-slate-500'}`}>{from}/{to} rate unavailable right now.</p>
+      ) : (
+        <RateHeadline fromCurrency={from} toCurrency={to} market={market} rate={value} loading={loading} theme={theme} />
+      )}
+      <div className={`mt-2 flex items-center justify-between gap-2 text-xs ${dark ? 'text-slate-500' : 'text-slate-400'}`}>
+        <span>{rate && `Updated ${formatRelativeAge(rate.fetchedAt)}`}</span>
+        <a
+          href={appUrl}
+          target="_blank"
+          rel="noopener"
+          className={`font-semibold ${dark ? 'text-green-400 hover:text-green-300' : 'text-green-600 hover:text-green-700'}`}
+        >
+          NairaSense
+        </a>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CURRENCY_CODES, CurrencyCode, ExchangeData, Market, RateSnapshot, SUPPORTED_CURRENCIES } from '../types';
+import { fetchRateSnapshot } from '../services/api';
+import { MARKET_LABELS } from '../services/markets';
+import { formatMoney, formatRate } from '../services/money';
+import {
+  RemittanceProvider,
+  RemittanceQuote,
+  DEFAULT_REMITTANCE_PROVIDERS,
+  feeCurrencyRate,
+  loadRemittanceProviders,
+  quoteForReceiveAmount,
+  quoteForSendAmount,
+  saveRemittanceProviders
+} from '../services/remittance';
+import { Send, Pencil, Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface RemittanceCalculatorProps {
+  data: ExchangeData | null;
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+}
+
+type Direction = 'send' | 'receive';
+
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(2)}%`;
+
+export const RemittanceCalculator: React.FC<RemittanceCalculatorProps> = ({ data, fromCurrency, toCurrency }) => {
+  const [direction, setDirection] = useState<Direction>('send');
+  const [amount, setAmount] = useState<string>('500');
+  const [providers, setProviders] = useState<RemittanceProvider[]>(loadRemittanceProviders);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Only needed to price fees charged in a currency outside the pair
+  const [snapshot, setSnapshot] = useState<RateSnapshot | null>(null);
+  const needsSnapshot = providers.some(p => p.feeCurrency !== fromCurrency && p.feeCurrency !== toCurrency);
+
+  useEffect(() => {
+    if (!needsSnapshot) return;
+    fetchRateSnapshot()
+      .then(setSnapshot)
+      .catch(err => console.warn('Failed to load rates for remittance fees', err));
+  }, [needsSnapshot]);
+
+  const fromSymbol = SUPPORTED_CURRENCIES[fromCurrency].symbol;
+  const toSymbol = SUPPORTED_CURRENCIES[toCurrency].symbol;
+
+  const quotes = useMemo(() => {
+    const value = parseFloat(amount.replace(/,/g, ''));
+    if (!data || !(value > 0)) return [];
+    return providers
+      .map(provider => {
+        // Providers whose fee can't be priced yet are left out rather than compared wrongly
+        const feeRate = feeCurrencyRate(provider.feeCurrency, fromCurrency, toCurrency, data, snapshot);
+        if (feeRate === undefined) return { provider, quote: undefined };
+        return {
+          provider,
+          quote: direction === 'send'
+            ? quoteForSendAmount(provider, data, value, feeRate)
+            : quoteForReceiveAmount(provider, data, value, feeRate)
+        };
+      })
+      .filter((q): q is { provider: RemittanceProvider; quote: RemittanceQuote } => !!q.quote)
+      // Best deal first: most received for a send amount, least sent for a target
+      .sort((a, b) => direction === 'send'
+        ? b.quote.receiveAmount - a.quote.receiveAmount
+        : a.quote.sendAmount - b.quote.sendAmount);
+  }, [data, amount, direction, providers, fromCurrency, toCurrency, snapshot]);
+
+  const updateProviders = (next: RemittanceProvider[]) => {
+    setProviders(next);
+    saveRemittanceProviders(next);
+  };
+
+  const updateProvider = (id: string, changes: Partial<RemittanceProvider>) =>
+    updateProviders(providers.map(p => (p.id === id ? { ...p, ...changes } : p)));
+
+  const addProvider = () => {
+    const provider: RemittanceProvider = {
+      id: crypto.randomUUID(),
+      name: 'Custom provider',
+      market: 'parallel',
+      flatFee: 0,
+      feeCurrency: fromCurrency,
+      percentFee: 0,
+      rateMarkup: 0
+    };
+    updateProviders([...providers, provider]);
+    setEditingId(provider.id);
+  };
+
+  const numberField = (provider: RemittanceProvider, field: 'flatFee' | 'percentFee' | 'rateMarkup', label: string, asPercent: boolean) => (
+    <label className="flex flex-col gap-0.5">
+      <span className="text-slate-400">{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={asPercent ? 0.1 : 0.01}
+        value={asPercent ? +(provider[field] * 100).toFixed(4) : provider[field]}
+        onChange={(e) => {
+          const value = Math.max(0, parseFloat(e.target.value) || 0);
+          updateProvider(provider.id, { [field]: asPercent ? value / 100 : value });
+        }}
+        className="w-full bg-white border border-slate-200 rounded-md px-2 py-1 focus:outline-none focus:border-green-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="mt-6 bg-white rounded-3xl shadow-xl border border-slate-100 p-6 w-full max-w-lg mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Send size={16} />
+          Send Money
+        </h3>
+        <div className="flex bg-slate-100 rounded-lg p-0.5" role="radiogroup" aria-label="Calculate from">
+          {(['send', 'receive'] as Direction[]).map(d => (
+            <button
+              key={d}
+              role="radio"
+              aria-checked={direction === d}
+              onClick={() => setDirection(d)}
+              className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${direction === d ? 'bg-white text-green-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {d === 'send' ? 'I send' : 'They receive'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mb-4 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 focus-within:border-green-500">
+        <span className="text-lg text-slate-400">{direction === 'send' ? fromSymbol : toSymbol}</span>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="w-full min-w-0 bg-transparent text-lg font-bold text-slate-800 focus:outline-none"
+          placeholder="0.00"
+        />
+        <span className="text-sm font-semibold text-slate-500">{direction === 'send' ? fromCurrency : toCurrency}</span>
+      </div>
+
+      {data && (
+        <p className="text-xs text-slate-400 mb-3">
+          Mid-market: {toSymbol}{formatRate(data.rate, toCurrency)} per {fromSymbol}1
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {quotes.map(({ provider, quote }, index) => (
+          <li key={provider.id} className={`rounded-xl border px-3 py-2 text-sm ${index === 0 ? 'bg-green-50 border-green-100' : 'bg-slate-50 border-slate-100'}`}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-slate-700 truncate">
+                {provider.name}
+                <span className="ml-1 text-xs font-normal text-slate-400">{MARKET_LABELS[provider.market]}</span>
+              </span>
+              <span className="font-bold text-slate-800 shrink-0">
+                {direction === 'send'
+                  ? `${toSymbol}${formatMoney(quote.receiveAmount, toCurrency)}`
+                  : `${fromSymbol}${formatMoney(quote.sendAmount, fromCurrency)}`}
+              </span>
+            </div>
+            <div className="flex items-center justify-between gap-2 mt-0.5 text-xs text-slate-400">
+              <span>
+                Fees {fromSymbol}{formatMoney(quote.fee, fromCurrency)} · effective {formatRate(quote.effectiveRate, toCurrency)}
+              </span>
+              <span className={quote.costPercent > 0.03 ? 'text-red-500' : 'text-amber-600'}>
+                {formatPercent(quote.costPercent)} below mid-market
+              </span>
+              <button
+                onClick={() => setEditingId(editingId === provider.id ? null : provider.id)}
+                className="p-1 text-slate-400 hover:text-slate-600 shrink-0"
+                title="Edit fees"
+              >
+                <Pencil size={12} />
+              </button>
+            </div>
+
+            {editingId === provider.id && (
+              <div className="mt-2 pt-2 border-t border-slate-200 grid grid-cols-2 gap-2 text-xs">
+                <label className="flex flex-col gap-0.5 col-span-2">
+                  <span className="text-slate-400">Name</span>
+                  <input
+                    type="text"
+                    value={provider.name}
+                    onChange={(e) => updateProvider(provider.id, { name: e.target.value })}
+                    className="w-full bg-white border border-slate-200 rounded-md px-2 py-1 focus:outline-none focus:border-green-500"
+                  />
+                </label>
+                {numberField(provider, 'flatFee', `Flat fee (${provider.feeCurrency})`, false)}
+                <label className="flex flex-col gap-0.5">
+                  <span className="text-slate-400">Fee currency</span>
+                  <select
+                    value={provider.feeCurrency}
+                    onChange={(e) => updateProvider(provider.id, { feeCurrency: e.target.value as CurrencyCode })}
+                    className="w-full bg-white border border-slate-200 rounded-md px-2 py-1 focus:outline-none focus:border-green-500"
+                  >
+                    {CURRENCY_CODES.map(code => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                </label>
+                {numberField(provider, 'percentFee', 'Transfer fee (%)', true)}
+                {numberField(provider, 'rateMarkup', 'Rate markup (%)', true)}
+                <label className="flex flex-col gap-0.5">
+                  <span className="text-slate-400">Based on</span>
+                  <select
+                    value={provider.market}
+                    onChange={(e) => updateProvider(provider.id, { market: e.target.value as Market })}
+                    className="w-full bg-white border border-slate-200 rounded-md px-2 py-1 focus:outline-none focus:border-green-500"
+                  >
+                    {(['official', 'parallel'] as Market[]).map(m => <option key={m} value={m}>{MARKET_LABELS[m]} rate</option>)}
+                  </select>
+                </label>
+                <button
+                  onClick={() => updateProviders(providers.filter(p => p.id !== provider.id))}
+                  disabled={providers.length <= 1}
+                  className="col-span-2 inline-flex items-center justify-center gap-1 text-red-500 hover:text-red-700 disabled:text-slate-300"
+                >
+                  <Trash2 size={12} /> Remove provider
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between mt-3 text-xs">
+        <button onClick={addProvider} className="inline-flex items-center gap-1 font-semibold text-green-600 hover:text-green-700">
+          <Plus size={12} /> Add provider
+        </button>
+        <button
+          onClick={() => updateProviders(DEFAULT_REMITTANCE_PROVIDERS)}
+          className="inline-flex items-center gap-1 text-slate-400 hover:text-slate-600"
+        >
+          <RotateCcw size={12} /> Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExchangeData } from '../types';
+import { ConverterUrlState, buildShareUrl } from '../services/urlState';
+import { buildShareSnapshot, formatShareText } from '../services/shareSnapshot';
+import { Check, Copy, Link, Share2 } from 'lucide-react';
+
+interface ShareButtonProps {
+  data: ExchangeData | null;
+  state: ConverterUrlState;
+}
+
+type Copied = 'link' | 'text' | null;
+
+// Share sheet where the platform has one; otherwise a popover to copy the
+// deep link or the snapshot text that link previews will show.
+export const ShareButton: React.FC<ShareButtonProps> = ({ data, state }) => {
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState<Copied>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const url = buildShareUrl(state);
+  const snapshot = data ? buildShareSnapshot(data, state) : null;
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [open]);
+
+  const copy = async (kind: Exclude<Copied, null>, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(kind);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.warn('Clipboard write failed', err);
+    }
+  };
+
+  const handleClick = async () => {
+    if (snapshot && typeof navigator.share === 'function') {
+      try {
+        await navigator.share({ title: snapshot.title, text: snapshot.description, url });
+        return;
+      } catch (err) {
+        // Dismissing the share sheet is not a failure worth a fallback
+        if ((err as DOMException).name === 'AbortError') return;
+      }
+    }
+    setOpen(!open);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={handleClick}
+        className="p-2.5 rounded-xl transition-all bg-slate-50 text-slate-500 hover:bg-slate-100 hover:text-slate-700 active:scale-95"
+        title="Share this conversion"
+        aria-expanded={open}
+      >
+        <Share2 size={20} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-72 bg-white border border-slate-200 rounded-xl shadow-xl p-4 text-xs text-slate-600">
+          {snapshot && (
+            <div className="mb-3 p-3 bg-slate-50 border border-slate-100 rounded-lg">
+              <p className="font-semibold text-slate-800">{snapshot.title}</p>
+              <p className="mt-1 text-slate-500">{snapshot.description}</p>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => copy('link', url)}
+              className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-green-600 text-white font-semibold hover:bg-green-700"
+            >
+              {copied === 'link' ? <Check size={14} /> : <Link size={14} />}
+              {copied === 'link' ? 'Link copied' : 'Copy link'}
+            </button>
+            {snapshot && (
+              <button
+                onClick={() => copy('text', `${formatShareText(snapshot)}\n${url}`)}
+                className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-slate-100 text-slate-700 font-semibold hover:bg-slate-200"
+              >
+                {copied === 'text' ? <Check size={14} /> : <Copy size={14} />}
+                {copied === 'text' ? 'Text copied' : 'Copy text'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,34 +1,81 @@
 import React from 'react';
-import { Source } from '../types';
-import { ExternalLink } from 'lucide-react';
+import { CurrencyCode, Source, SUPPORTED_CURRENCIES, TrustTier } from '../types';
+import { TRUST_TIER_LABELS, scoreSource } from '../services/sourceTrust';
+import { formatRate } from '../services/money';
+import { ExternalLink, ShieldAlert, ShieldCheck } from 'lucide-react';
 
 interface SourceLinksProps {
   sources: Source[];
+  toCurrency: CurrencyCode;
+  // Set when no source reaches the trusted threshold
+  lowTrust?: boolean;
 }
 
-export const SourceLinks: React.FC<SourceLinksProps> = ({ sources }) => {
-  if (sources.length === 0) return null;
+const MAX_SOURCES = 4;
+
+const TIER_STYLES: Record<TrustTier, string> = {
+  official: 'bg-green-100 text-green-800',
+  institutional: 'bg-emerald-50 text-emerald-700',
+  aggregator: 'bg-sky-50 text-sky-700',
+  media: 'bg-slate-100 text-slate-600',
+  unverified: 'bg-amber-50 text-amber-700',
+  blocked: 'bg-red-50 text-red-700',
+};
+
+export const SourceLinks: React.FC<SourceLinksProps> = ({ sources, toCurrency, lowTrust }) => {
+  // Rates stored before scoring existed carry no trust; score them against the default registry
+  const scored = sources
+    .map(source => ({ ...source, trust: source.trust ?? scoreSource(source) }))
+    .filter(source => source.trust.tier !== 'blocked')
+    .sort((a, b) => b.trust.score - a.trust.score);
+
+  if (scored.length === 0 && !lowTrust) return null;
 
   return (
     <div className="mt-4 pt-4 border-t border-slate-100">
       <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1">
-        Verified Sources
+        Sources
       </h4>
-      <div className="flex flex-wrap gap-2">
-        {sources.slice(0, 3).map((source, idx) => (
-          <a
-            key={idx}
-            href={source.uri}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="inline-flex items-center gap-1.5 px-3 py-1 bg-slate-50 hover:bg-slate-100 text-slate-600 text-xs rounded-full border border-slate-200 transition-colors truncate max-w-[200px]"
-            title={source.title}
-          >
-            <span className="truncate">{source.title}</span>
-            <ExternalLink size={10} />
-          </a>
+
+      {lowTrust && (
+        <div className="mb-2 flex items-start gap-2 px-3 py-2 bg-amber-50 border border-amber-100 text-amber-800 rounded-lg text-xs">
+          <ShieldAlert size={14} className="shrink-0 mt-0.5" />
+          <span>
+            {scored.length
+              ? 'None of the sources behind this rate are on our list of trusted publishers. Treat it with caution.'
+              : 'No sources were cited for this rate. Treat it with caution.'}
+          </span>
+        </div>
+      )}
+
+      <ul className="space-y-1.5">
+        {scored.slice(0, MAX_SOURCES).map(source => (
+          <li key={source.uri} className="flex items-center gap-2 text-xs">
+            <span
+              className={`shrink-0 inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full font-medium ${TIER_STYLES[source.trust.tier]}`}
+              title={`Trust score ${Math.round(source.trust.score * 100)}%`}
+            >
+              {source.trust.score >= 0.75 && <ShieldCheck size={10} />}
+              {TRUST_TIER_LABELS[source.trust.tier]}
+            </span>
+            <a
+              href={source.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 min-w-0 text-slate-600 hover:text-slate-800 hover:underline"
+              title={source.title}
+            >
+              <span className="truncate">{source.trust.domain || source.title}</span>
+              <ExternalLink size={10} className="shrink-0" />
+            </a>
+            {source.quotedRate !== undefined && (
+              <span className="ml-auto shrink-0 font-semibold text-slate-700">
+                {SUPPORTED_CURRENCIES[toCurrency].symbol}{formatRate(source.quotedRate, toCurrency)}
+              </span>
+            )}
+          </li>
         ))}
-      </div>
+      </ul>
     </div>
   );
-};
\ No newline at end of file
+};
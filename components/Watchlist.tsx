@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CurrencyCode, Market, RateSnapshot, SUPPORTED_CURRENCIES, UserPreferences, WatchlistEntry } from '../types';
+import { fetchRateSnapshot } from '../services/api';
+import { convertBatch } from '../services/batchConversion';
+import { MARKET_LABELS } from '../services/markets';
+import { ONE, formatRate } from '../services/money';
+import { formatRelativeAge } from '../services/time';
+import { Eye, Pin, Plus, TrendingDown, TrendingUp, X } from 'lucide-react';
+
+interface WatchlistProps {
+  entries: WatchlistEntry[];
+  preferences: UserPreferences | null;
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  market: Market;
+  onAdd: () => void;
+  onRemove: (from: CurrencyCode, to: CurrencyCode) => void;
+  onSelect: (from: CurrencyCode, to: CurrencyCode) => void;
+  onMakeDefault: () => void;
+}
+
+// Tickers share one snapshot, so watching many pairs costs a single request
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+export const Watchlist: React.FC<WatchlistProps> = ({
+  entries,
+  preferences,
+  fromCurrency,
+  toCurrency,
+  market,
+  onAdd,
+  onRemove,
+  onSelect,
+  onMakeDefault
+}) => {
+  const [snapshot, setSnapshot] = useState<RateSnapshot | null>(null);
+  // Rates from the previous poll, for the up/down arrows
+  const previousRates = useRef<Record<string, number>>({});
+  const [trends, setTrends] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (entries.length === 0) return;
+    const load = () => {
+      fetchRateSnapshot()
+        .then(setSnapshot)
+        .catch(err => console.warn('Failed to refresh watchlist rates', err));
+    };
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [entries.length]);
+
+  const tickers = useMemo(() => {
+    if (!snapshot) return [];
+    return convertBatch(entries.map((e, i) => ({ line: i + 1, amount: ONE, from: e.from, to: e.to })), snapshot, market);
+  }, [snapshot, entries, market]);
+
+  useEffect(() => {
+    const next: Record<string, number> = {};
+    for (const ticker of tickers) {
+      const key = `${ticker.from}-${ticker.to}-${market}`;
+      const previous = previousRates.current[key];
+      if (ticker.rate !== undefined && previous !== undefined && previous !== ticker.rate) {
+        next[key] = ticker.rate - previous;
+      }
+      if (ticker.rate !== undefined) previousRates.current[key] = ticker.rate;
+    }
+    setTrends(current => ({ ...current, ...next }));
+  }, [tickers, market]);
+
+  const watching = entries.some(e => e.from === fromCurrency && e.to === toCurrency);
+  const isDefault = preferences?.defaultFrom === fromCurrency && preferences?.defaultTo === toCurrency && preferences?.defaultMarket === market;
+
+  return (
+    <div className="mb-6 w-full max-w-lg mx-auto">
+      <div className="flex items-center justify-between mb-2 text-xs">
+        <h3 className="font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1.5">
+          <Eye size={14} /> Watchlist
+        </h3>
+        <div className="flex items-center gap-3">
+          {!watching && fromCurrency !== toCurrency && (
+            <button onClick={onAdd} className="inline-flex items-center gap-1 font-semibold text-green-600 hover:text-green-700">
+              <Plus size={12} /> Watch {fromCurrency}/{toCurrency}
+            </button>
+          )}
+          {!isDefault && fromCurrency !== toCurrency && (
+            <button onClick={onMakeDefault} className="inline-flex items-center gap-1 text-slate-500 hover:text-slate-700" title="Open on this pair and market next time">
+              <Pin size={12} /> Make default
+            </button>
+          )}
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-slate-400">Watch pairs to keep their rates in view.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {entries.map((entry, i) => {
+            const ticker = tickers[i];
+            const trend = trends[`${entry.from}-${entry.to}-${market}`];
+            const active = entry.from === fromCurrency && entry.to === toCurrency;
+            return (
+              <div
+                key={`${entry.from}-${entry.to}`}
+                className={`group flex items-center gap-1.5 pl-3 pr-1.5 py-1.5 bg-white border rounded-xl text-xs ${active ? 'border-green-300' : 'border-slate-200'}`}
+              >
+                <button onClick={() => onSelect(entry.from, entry.to)} className="flex items-center gap-1.5" title={`${SUPPORTED_CURRENCIES[entry.from].name} to ${SUPPORTED_CURRENCIES[entry.to].name}`}>
+                  <span className="font-semibold text-slate-700">{entry.from}/{entry.to}</span>
+                  <span className="tabular-nums text-slate-600">
+                    {ticker?.rate !== undefined ? formatRate(ticker.rate, entry.to) : '—'}
+                  </span>
+                  {trend > 0 && <TrendingUp size={12} className="text-green-600" />}
+                  {trend < 0 && <TrendingDown size={12} className="text-red-500" />}
+                </button>
+                <button
+                  onClick={() => onRemove(entry.from, entry.to)}
+                  className="p-0.5 rounded text-slate-300 hover:text-slate-500 hover:bg-slate-100"
+                  aria-label={`Stop watching ${entry.from}/${entry.to}`}
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {snapshot && entries.length > 0 && (
+        <p className="mt-1.5 text-[11px] text-slate-400">
+          {MARKET_LABELS[market]} rates as of {formatRelativeAge(snapshot.takenAt)}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+// NairaSense service worker: keeps the app shell available offline.
+// Rate data is not cached here; the app persists the last good rates in IndexedDB.
+
+const CACHE_NAME = 'nairasense-shell-v3';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Third-party assets the shell needs to render (styles, fonts, flags)
+const CACHEABLE_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'flagcdn.com', 'esm.sh'];
+
+// Navigations whose page is the converter itself; the widget and admin pages
+// are never stored, so an offline launch can only fall back to the app
+const APP_SHELL_PATHS = ['/', '/index.html'];
+
+// Same-origin rate server proxy: always live, and admin responses must never be stored
+const API_PREFIX = '/api/';
+const ADMIN_PATH = '/admin.html';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(SHELL_URLS)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key)))
+    )
+  );
+  self.clients.claim();
+});
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+const networkFirstNavigation = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const isAppShell = APP_SHELL_PATHS.includes(new URL(request.url).pathname);
+  try {
+    const response = await fetch(request);
+    if (isAppShell && response.ok) cache.put(request, response.clone());
+    return response;
+  } catch {
+    if (!isAppShell) return Response.error();
+    const cached = (await cache.match(request, { ignoreSearch: true })) || (await cache.match('/index.html'));
+    return cached || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin && (url.pathname.startsWith(API_PREFIX) || url.pathname === ADMIN_PATH)) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(request));
+  } else if (url.origin === self.location.origin || CACHEABLE_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
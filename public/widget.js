@@ -0,0 +1,46 @@
+// NairaSense embeddable rate widget.
+//
+//   <script src="https://<nairasense-host>/widget.js" async></script>
+//   <nairasense-rate pair="USD-NGN" market="parallel" theme="light"></nairasense-rate>
+//
+// The element renders widget.html in a sandboxed iframe from the same host as
+// this script, so partner page styles cannot leak in and no page data leaks out.
+
+const WIDGET_ORIGIN = new URL(document.currentScript ? document.currentScript.src : '/', window.location.href).origin;
+const ATTRIBUTES = ['pair', 'market', 'theme'];
+
+class NairaSenseRate extends HTMLElement {
+  static get observedAttributes() {
+    return ATTRIBUTES;
+  }
+
+  connectedCallback() {
+    if (!this.shadowRoot) {
+      const root = this.attachShadow({ mode: 'open' });
+      root.innerHTML = '<style>:host{display:inline-block;width:320px;height:150px}iframe{width:100%;height:100%;border:0}</style>';
+      this.frame = document.createElement('iframe');
+      this.frame.title = 'NairaSense exchange rate';
+      this.frame.loading = 'lazy';
+      this.frame.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox');
+      root.appendChild(this.frame);
+    }
+    this.render();
+  }
+
+  attributeChangedCallback() {
+    if (this.frame) this.render();
+  }
+
+  render() {
+    const params = new URLSearchParams();
+    ATTRIBUTES.forEach((name) => {
+      const value = this.getAttribute(name);
+      if (value) params.set(name, value);
+    });
+    this.frame.src = `${WIDGET_ORIGIN}/widget.html?${params}`;
+  }
+}
+
+if (!customElements.get('nairasense-rate')) {
+  customElements.define('nairasense-rate', NairaSenseRate);
+}
@@ -0,0 +1,48 @@
+import { IncomingMessage } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { HttpError } from './http';
+import { supabaseAdmin as supabase } from './supabaseAdmin';
+
+// Admin routes take a bearer token: a Supabase access token whose user is an
+// admin, or (for local development and break-glass use) ADMIN_TOKEN itself.
+//
+// A Supabase user is an admin when app_metadata.role is "admin" (only the
+// service role can set app_metadata) or their email is listed in ADMIN_EMAILS.
+
+export interface AdminIdentity {
+  // Recorded in the audit log as the actor
+  actor: string;
+}
+
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+const ADMIN_EMAILS = new Set(
+  (process.env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean)
+);
+
+const bearerToken = (req: IncomingMessage): string | undefined => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  return match?.[1].trim();
+};
+
+// Compares digests so neither the length nor the content leaks through timing
+const matchesAdminToken = (token: string): boolean => {
+  if (!ADMIN_TOKEN) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(ADMIN_TOKEN));
+};
+
+export const requireAdmin = async (req: IncomingMessage): Promise<AdminIdentity> => {
+  const token = bearerToken(req);
+  if (!token) throw new HttpError(401, 'Sign in required', { 'WWW-Authenticate': 'Bearer' });
+  if (matchesAdminToken(token)) return { actor: 'admin-token' };
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, 'Session is invalid or expired', { 'WWW-Authenticate': 'Bearer' });
+
+  const { user } = data;
+  const email = user.email?.toLowerCase();
+  if (user.app_metadata?.role !== 'admin' && !(email && ADMIN_EMAILS.has(email))) {
+    throw new HttpError(403, 'This account is not an admin');
+  }
+  return { actor: user.email || user.id };
+};
@@ -0,0 +1,237 @@
+import { AdminPairStatus, QuarantineStatus } from '../types';
+import { SuspiciousRateError } from '../services/rateSanity';
+import { HttpError, Route, readJson, sendJson } from './http';
+import { parsePairParam } from './routes';
+import { requireAdmin } from './adminAuth';
+import { listAuditLog, recordAudit } from './auditLog';
+import { deleteEmergencyRate, listEmergencyRates, setEmergencyRate } from './emergencyRates';
+import { MAX_OVERRIDE_MS, clearOverride, createOverride, getActiveOverrides, listOverrides } from './rateOverrides';
+import { QuarantineReviewError, getQuarantinedRate, listQuarantinedRates } from './rateQuarantine';
+import {
+  approveQuarantinedRate,
+  getCanonicalPair,
+  loadStoredRates,
+  refreshRate,
+  rejectQuarantinedRate
+} from './rateService';
+
+// Admin console API. Every route requires an admin (see adminAuth) and every
+// change is written to the audit log. Rates are managed per canonical pair.
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+const MAX_NOTE_LENGTH = 500;
+
+// Overrides and emergency rates are stored the way rates are fetched: Foreign -> NGN
+const parseCanonicalPair = (value: string): string => {
+  const [from, to] = parsePairParam(value);
+  if (from === to) throw new HttpError(400, `Not a currency pair: ${value}`);
+  const { pairId, shouldInvert } = getCanonicalPair(from, to);
+  if (shouldInvert) throw new HttpError(400, `Rates are managed on the canonical pair ${pairId}`);
+  return pairId;
+};
+
+const parseId = (value: string): number => {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, `Invalid id: ${value}`);
+  return id;
+};
+
+const optionalRate = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const rate = typeof value === 'string' ? Number(value) : value;
+  if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+    throw new HttpError(400, `"${field}" must be a positive number`);
+  }
+  return rate;
+};
+
+const parseNote = (value: unknown, required: boolean): string | undefined => {
+  const note = typeof value === 'string' ? value.trim() : '';
+  if (required && !note) throw new HttpError(400, 'A note explaining the change is required');
+  if (note.length > MAX_NOTE_LENGTH) throw new HttpError(400, `Note is longer than ${MAX_NOTE_LENGTH} characters`);
+  return note || undefined;
+};
+
+const buildPairStatuses = async (): Promise<AdminPairStatus[]> => {
+  const [stored, overrides, emergency, quarantined] = await Promise.all([
+    loadStoredRates(),
+    getActiveOverrides(),
+    listEmergencyRates(),
+    listQuarantinedRates('pending'),
+  ]);
+  const emergencyByPair = new Map(emergency.map(rate => [rate.pair, rate]));
+  const pairs = [...new Set([...Object.keys(stored), ...Object.keys(overrides), ...emergencyByPair.keys()])].sort();
+
+  return pairs.map(pair => ({
+    pair,
+    stored: stored[pair],
+    override: overrides[pair],
+    emergency: emergencyByPair.get(pair),
+    pendingQuarantine: quarantined.filter(entry => entry.pair === pair).length,
+  }));
+};
+
+export const adminRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: /^\/admin\/session$/,
+    handle: async ({ req, res }) => sendJson(res, 200, await requireAdmin(req), NO_STORE)
+  },
+  {
+    method: 'GET',
+    pattern: /^\/admin\/pairs$/,
+    handle: async ({ req, res }) => {
+      await requireAdmin(req);
+      sendJson(res, 200, await buildPairStatuses(), NO_STORE);
+    }
+  },
+  {
+    // Fetches from the providers now, regardless of cache age
+    method: 'POST',
+    pattern: /^\/admin\/pairs\/([^/]+)\/refresh$/,
+    handle: async ({ req, res, params }) => {
+      const { actor } = await requireAdmin(req);
+      const pair = parseCanonicalPair(params[0]);
+      const [from, to] = parsePairParam(pair);
+      try {
+        const rate = await refreshRate(from, to);
+        await recordAudit(actor, 'rate.refresh', pair, { outcome: 'stored', rate: rate.rate });
+        sendJson(res, 200, rate, NO_STORE);
+      } catch (err) {
+        if (err instanceof SuspiciousRateError) {
+          await recordAudit(actor, 'rate.refresh', pair, { outcome: 'quarantined', issues: err.issues });
+          sendJson(res, 409, { error: err.message, issues: err.issues }, NO_STORE);
+          return;
+        }
+        console.error(`Forced refresh of ${pair} failed`, err);
+        await recordAudit(actor, 'rate.refresh', pair, { outcome: 'failed', error: (err as Error).message });
+        throw new HttpError(502, `Providers returned no rate for ${pair}`);
+      }
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/admin\/overrides$/,
+    handle: async ({ req, res }) => {
+      await requireAdmin(req);
+      sendJson(res, 200, await listOverrides(), NO_STORE);
+    }
+  },
+  {
+    // { pair, officialRate?, parallelRate?, note, expiresAt }
+    method: 'POST',
+    pattern: /^\/admin\/overrides$/,
+    handle: async ({ req, res }) => {
+      const { actor } = await requireAdmin(req);
+      const body = await readJson(req);
+      const pair = parseCanonicalPair(String(body.pair || ''));
+      const officialRate = optionalRate(body.officialRate, 'officialRate');
+      const parallelRate = optionalRate(body.parallelRate, 'parallelRate');
+      if (officialRate === undefined && parallelRate === undefined) {
+        throw new HttpError(400, 'An override needs an official or a parallel rate');
+      }
+      const note = parseNote(body.note, true)!;
+      const expiresAt = new Date(body.expiresAt);
+      const remaining = expiresAt.getTime() - Date.now();
+      if (Number.isNaN(remaining) || remaining <= 0 || remaining > MAX_OVERRIDE_MS) {
+        throw new HttpError(400, 'expiresAt must be in the future and at most 7 days away');
+      }
+
+      const override = await createOverride({ pair, officialRate, parallelRate, note, expiresAt: expiresAt.toISOString() }, actor);
+      await recordAudit(actor, 'override.create', pair, { id: override.id, officialRate, parallelRate, note, expiresAt: override.expiresAt });
+      sendJson(res, 201, override, NO_STORE);
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/admin\/overrides\/([^/]+)$/,
+    handle: async ({ req, res, params }) => {
+      const { actor } = await requireAdmin(req);
+      const cleared = await clearOverride(parseId(params[0]), actor);
+      if (!cleared) throw new HttpError(404, `No active override with id ${params[0]}`);
+      await recordAudit(actor, 'override.clear', cleared.pair, { id: cleared.id });
+      sendJson(res, 200, cleared, NO_STORE);
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/admin\/emergency-rates$/,
+    handle: async ({ req, res }) => {
+      await requireAdmin(req);
+      sendJson(res, 200, await listEmergencyRates(), NO_STORE);
+    }
+  },
+  {
+    // { rate, note? }
+    method: 'PUT',
+    pattern: /^\/admin\/emergency-rates\/([^/]+)$/,
+    handle: async ({ req, res, params }) => {
+      const { actor } = await requireAdmin(req);
+      const pair = parseCanonicalPair(params[0]);
+      const body = await readJson(req);
+      const rate = optionalRate(body.rate, 'rate');
+      if (rate === undefined) throw new HttpError(400, '"rate" is required');
+      const note = parseNote(body.note, false);
+
+      const previous = (await listEmergencyRates()).find(entry => entry.pair === pair);
+      await setEmergencyRate(pair, rate, actor);
+      await recordAudit(actor, 'emergency.set', pair, { rate, previousRate: previous?.rate, note });
+      sendJson(res, 200, await listEmergencyRates(), NO_STORE);
+    }
+  },
+  {
+    // Reverts to the built-in rate
+    method: 'DELETE',
+    pattern: /^\/admin\/emergency-rates\/([^/]+)$/,
+    handle: async ({ req, res, params }) => {
+      const { actor } = await requireAdmin(req);
+      const pair = parseCanonicalPair(params[0]);
+      const previous = (await listEmergencyRates()).find(entry => entry.pair === pair);
+      if (previous?.origin !== 'db') throw new HttpError(404, `${pair} has no edited emergency rate`);
+      await deleteEmergencyRate(pair);
+      await recordAudit(actor, 'emergency.delete', pair, { previousRate: previous.rate });
+      sendJson(res, 200, await listEmergencyRates(), NO_STORE);
+    }
+  },
+  {
+    // ?status=pending|approved|rejected
+    method: 'GET',
+    pattern: /^\/admin\/quarantine$/,
+    handle: async ({ req, res, url }) => {
+      await requireAdmin(req);
+      const status = url.searchParams.get('status') || 'pending';
+      if (!['pending', 'approved', 'rejected'].includes(status)) throw new HttpError(400, `Unknown status: ${status}`);
+      sendJson(res, 200, await listQuarantinedRates(status as QuarantineStatus), NO_STORE);
+    }
+  },
+  {
+    // { note? }
+    method: 'POST',
+    pattern: /^\/admin\/quarantine\/([^/]+)\/(approve|reject)$/,
+    handle: async ({ req, res, params }) => {
+      const { actor } = await requireAdmin(req);
+      const id = parseId(params[0]);
+      const approve = params[1] === 'approve';
+      const note = parseNote((await readJson(req)).note, false);
+      try {
+        await (approve ? approveQuarantinedRate : rejectQuarantinedRate)(id, { reviewedBy: actor, note });
+      } catch (err) {
+        if (err instanceof QuarantineReviewError) throw new HttpError(err.reason === 'not-found' ? 404 : 409, err.message);
+        throw err;
+      }
+      const reviewed = await getQuarantinedRate(id);
+      await recordAudit(actor, approve ? 'quarantine.approve' : 'quarantine.reject', reviewed?.pair, { id, note });
+      sendJson(res, 200, reviewed, NO_STORE);
+    }
+  },
+  {
+    // ?pair=USD-NGN narrows the log
+    method: 'GET',
+    pattern: /^\/admin\/audit$/,
+    handle: async ({ req, res, url }) => {
+      await requireAdmin(req);
+      const pair = url.searchParams.get('pair');
+      sendJson(res, 200, await listAuditLog({ pair: pair ? parseCanonicalPair(pair) : undefined }), NO_STORE);
+    }
+  }
+];
@@ -0,0 +1,41 @@
+import { AuditAction, AuditEntry } from '../types';
+import { supabaseAdmin as supabase } from './supabaseAdmin';
+
+// Append-only record of admin actions: who changed what, and when.
+
+const AUDIT_TABLE = 'admin_audit_log';
+
+interface AuditRow {
+  id: number;
+  actor: string;
+  action: AuditAction;
+  pair: string | null;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export const recordAudit = async (
+  actor: string,
+  action: AuditAction,
+  pair: string | undefined,
+  details: Record<string, unknown> = {}
+): Promise<void> => {
+  const { error } = await supabase.from(AUDIT_TABLE).insert({ actor, action, pair: pair ?? null, details });
+  // The action itself already happened; a lost audit row must at least reach the logs
+  if (error) console.error(`Audit log write failed: ${actor} ${action} ${pair ?? ''}`, details, error);
+};
+
+export const listAuditLog = async ({ pair, limit = 100 }: { pair?: string; limit?: number } = {}): Promise<AuditEntry[]> => {
+  let query = supabase.from(AUDIT_TABLE).select('*').order('created_at', { ascending: false }).limit(limit);
+  if (pair) query = query.eq('pair', pair);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map((row: AuditRow) => ({
+    id: row.id,
+    actor: row.actor,
+    action: row.action,
+    pair: row.pair || undefined,
+    details: row.details || {},
+    createdAt: new Date(row.created_at).toISOString(),
+  }));
+};
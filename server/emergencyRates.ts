@@ -0,0 +1,102 @@
+import { EmergencyRate } from '../types';
+import { supabaseAdmin as supabase } from './supabaseAdmin';
+
+// Last-resort rates, served when no live or stored quote exists. The built-in
+// table ships with the server; admins override or extend it in the
+// emergency_rates table without a redeploy.
+
+// Emergency static fallbacks to prevent app crash on cold start + API 429
+export const BUILT_IN_EMERGENCY_RATES: Record<string, number> = {
+  'USD-NGN': 1580.00,
+  'GBP-NGN': 2050.00,
+  'EUR-NGN': 1720.00,
+  'CAD-NGN': 1150.00,
+  'GHS-NGN': 135.00,
+  'ZAR-NGN': 90.00,
+  'KES-NGN': 12.25,
+  'EGP-NGN': 32.50,
+  'MAD-NGN': 172.00,
+  'UGX-NGN': 0.44,
+  'TZS-NGN': 0.63,
+  'RWF-NGN': 1.09,
+  'ZMW-NGN': 66.00,
+  'XOF-NGN': 2.77,
+  'XAF-NGN': 2.77,
+  'AED-NGN': 430.00,
+  'SAR-NGN': 421.00,
+  'CNY-NGN': 221.00,
+  'INR-NGN': 18.40,
+  'JPY-NGN': 10.50,
+  'CHF-NGN': 1975.00,
+  'AUD-NGN': 1027.00
+};
+
+const EMERGENCY_TABLE = 'emergency_rates';
+// Emergency rates are read on every fallback; edits show up within this long
+const RELOAD_MS = 60 * 1000;
+
+interface EmergencyRateRow {
+  pair: string;
+  rate: number;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+let stored: { rows: EmergencyRateRow[]; loadedAt: number } | null = null;
+
+const fetchRows = async (): Promise<EmergencyRateRow[]> => {
+  const { data, error } = await supabase.from(EMERGENCY_TABLE).select('*');
+  if (error) throw error;
+  stored = { rows: data || [], loadedAt: Date.now() };
+  return stored.rows;
+};
+
+const loadRows = async (): Promise<EmergencyRateRow[]> => {
+  if (stored && Date.now() - stored.loadedAt < RELOAD_MS) return stored.rows;
+  try {
+    return await fetchRows();
+  } catch (err) {
+    // This path runs when things are already failing: keep the last rows we read
+    // (or just the built-in table) and don't retry before the reload interval.
+    console.warn('Emergency rate table unavailable', err);
+    stored = { rows: stored?.rows ?? [], loadedAt: Date.now() };
+    return stored.rows;
+  }
+};
+
+// Built-in rates with the admin-edited rows on top, keyed by pair id
+export const getEmergencyRates = async (): Promise<Record<string, number>> => {
+  const rows = await loadRows();
+  return { ...BUILT_IN_EMERGENCY_RATES, ...Object.fromEntries(rows.map(row => [row.pair, Number(row.rate)])) };
+};
+
+export const listEmergencyRates = async (): Promise<EmergencyRate[]> => {
+  const rows = await fetchRows();
+  const edited = new Map(rows.map(row => [row.pair, row]));
+  const pairs = [...new Set([...Object.keys(BUILT_IN_EMERGENCY_RATES), ...edited.keys()])].sort();
+
+  return pairs.map(pair => {
+    const row = edited.get(pair);
+    return row
+      ? { pair, rate: Number(row.rate), origin: 'db', updatedAt: new Date(row.updated_at).toISOString(), updatedBy: row.updated_by || undefined }
+      : { pair, rate: BUILT_IN_EMERGENCY_RATES[pair], origin: 'built-in' };
+  });
+};
+
+export const setEmergencyRate = async (pair: string, rate: number, updatedBy: string): Promise<void> => {
+  const { error } = await supabase.from(EMERGENCY_TABLE).upsert({
+    pair,
+    rate,
+    updated_by: updatedBy,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+  stored = null;
+};
+
+// Reverts a pair to its built-in rate, or removes it when it has none
+export const deleteEmergencyRate = async (pair: string): Promise<void> => {
+  const { error } = await supabase.from(EMERGENCY_TABLE).delete().eq('pair', pair);
+  if (error) throw error;
+  stored = null;
+};
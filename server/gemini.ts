@@ -0,0 +1,173 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { ExchangeData, Source, CurrencyCode } from "../types";
+import { RateProvider } from "../services/rateProviders";
+import { ParsedRateResponse, RateResponseError, parseRateResponse } from "../services/rateSchema";
+import { toMarketRate } from "../services/markets";
+import {
+    LowTrustSourcesError,
+    applySourceTrust,
+    createSourceRegistry,
+    extractQuotedRates,
+    summariseSourceTrust
+} from "../services/sourceTrust";
+import { createQuotaBudget } from "./quotaBudget";
+
+// Gemini grounded-search provider. Runs on the server only: the API key is
+// read from the server environment and never reaches the browser bundle.
+
+export const GEMINI_MODEL = 'gemini-3-flash-preview';
+
+// Structured-output schema used when re-prompting for a malformed answer
+const RATE_RESPONSE_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        officialRate: { type: Type.NUMBER, nullable: true },
+        parallelRate: { type: Type.NUMBER, nullable: true },
+        summary: { type: Type.STRING }
+    },
+    required: ['officialRate', 'parallelRate', 'summary']
+};
+
+// Every Gemini call (searches, repairs and retries) draws from one budget, so a
+// burst of cache misses or scheduled refreshes cannot exhaust the API quota.
+export const geminiQuota = createQuotaBudget({
+    id: 'gemini',
+    capacity: Number(process.env.GEMINI_QUOTA_BURST) || 5,
+    refillPerMinute: Number(process.env.GEMINI_QUOTA_PER_MINUTE) || 10
+});
+
+// Default registry plus operator overrides: SOURCE_ALLOWLIST="example.ng=aggregator,rates.example.com",
+// SOURCE_BLOCKLIST="spam.example". LOW_TRUST_SOURCES=reject fails answers backed only by
+// unverified sources (so another search is tried); the default, flag, serves them marked as low trust.
+export const sourceRegistry = createSourceRegistry({
+    allow: process.env.SOURCE_ALLOWLIST,
+    block: process.env.SOURCE_BLOCKLIST
+});
+const REJECT_LOW_TRUST = process.env.LOW_TRUST_SOURCES === 'reject';
+
+// Internal: one re-prompt asking the model to restate its answer as schema-valid JSON.
+// Throws the RateResponseError from the repaired answer if it is still invalid.
+const repairRateResponse = async (
+    ai: GoogleGenAI,
+    model: string,
+    originalText: string,
+    error: RateResponseError,
+    from: CurrencyCode,
+    to: CurrencyCode
+): Promise<ParsedRateResponse> => {
+    geminiQuota.take();
+    const response = await ai.models.generateContent({
+      model,
+      contents: `
+        Your previous answer about the ${from} to ${to} exchange rate could not be used: ${error.message}.
+        Restate the rates from your previous answer as JSON only. Rates are the number of ${to} per 1 ${from}.
+        Do not invent a number that is not in the answer below; set any rate it does not contain to null.
+
+        Previous answer:
+        ${originalText}
+      `,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: RATE_RESPONSE_SCHEMA,
+      },
+    });
+
+    return parseRateResponse(response.text || "", from, to);
+};
+
+// Internal: Direct AI Call
+const fetchFromAI = async (from: CurrencyCode, to: CurrencyCode): Promise<ExchangeData> => {
+    // Initialize AI client lazily
+    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    const model = GEMINI_MODEL;
+    const isNairaSearch = from === 'NGN' || to === 'NGN';
+    
+    const prompt = `
+      Search for the latest real-time exchange rate from ${from} to ${to}.
+      ${isNairaSearch ? "Look for both the Official CBN rate and the Parallel Market (Black Market) rate." : ""}
+      
+      I need you to extract each market's rate separately.
+      ${isNairaSearch ? "'officialRate' is the official CBN (NAFEM) rate. 'parallelRate' is the parallel market (black market / BDC) rate." : "'officialRate' is the mid-market rate. There is no parallel market for this pair."}
+      
+      Return the response in a structured text format, and END your response with a JSON block strictly adhering to this schema:
+      
+      \`\`\`json
+      {
+        "officialRate": 1234.56,
+        "parallelRate": 1250.00, 
+        "summary": "Brief 1-sentence summary of market status."
+      }
+      \`\`\`
+      
+      (Note: set a rate to null if it was not found. Rates must be numbers).
+    `;
+
+    geminiQuota.take();
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+      },
+    });
+
+    const text = response.text || "";
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    const groundingChunks = groundingMetadata?.groundingChunks || [];
+
+    // Parsing logic: strict schema validation with a single repair attempt
+    let parsed: ParsedRateResponse;
+    try {
+      parsed = parseRateResponse(text, from, to);
+    } catch (err) {
+      if (!(err instanceof RateResponseError)) throw err;
+      console.warn(`Invalid rate response (${err.code}): ${err.message}. Asking the model to repair it.`);
+      parsed = await repairRateResponse(ai, model, text, err, from, to);
+    }
+
+    // Extract sources with the rate each was cited for, then score them against the registry
+    const quotedRates = extractQuotedRates(
+      groundingMetadata?.groundingSupports || [],
+      [parsed.officialRate ?? 0, parsed.parallelRate ?? 0]
+    );
+    const citedSources: Source[] = groundingChunks
+      .map((chunk: any, index: number) => {
+        if (chunk.web) {
+          return { title: chunk.web.title, uri: chunk.web.uri, quotedRate: quotedRates.get(index) };
+        }
+        return null;
+      })
+      .filter((source: Source | null): source is Source => source !== null);
+    const sources = applySourceTrust(citedSources, sourceRegistry);
+
+    const sourceTrust = summariseSourceTrust(sources);
+    if (sourceTrust.lowTrust) {
+      const error = new LowTrustSourcesError(sources.map(source => source.trust!.domain));
+      if (REJECT_LOW_TRUST) throw error;
+      console.warn(`${from}-${to}: ${error.message}`);
+    }
+
+    const fetchedAt = new Date().toISOString();
+    return {
+      rate: parsed.rate,
+      officialRate: toMarketRate(parsed.officialRate, fetchedAt, sources),
+      parallelRate: toMarketRate(parsed.parallelRate, fetchedAt, sources),
+      summary: parsed.summary || text.replace(/```json[\s\S]*```/, '').trim(),
+      fetchedAt,
+      origin: 'live',
+      model,
+      sources,
+      sourceTrust
+    };
+};
+
+export const geminiProvider: RateProvider = {
+    id: 'gemini',
+    timeoutMs: 30000,
+    consensus: true,
+    // Repeated grounded searches give the consensus step more than one quote to compare
+    samples: Number(process.env.GEMINI_CONSENSUS_SAMPLES) || 1,
+    // Retries and backoff are applied by the resilience wrapper in rateService
+    fetchRate: fetchFromAI
+};
+
@@ -0,0 +1,90 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+// Minimal routing on top of node:http; the API surface is small enough that a
+// framework would be more code than it saves.
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  params: string[];
+}
+
+export interface Route {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'OPTIONS';
+  pattern: RegExp;
+  handle: (context: RouteContext) => Promise<void> | void;
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Parses a JSON request body; an empty body reads as {}
+export const readJson = async <T = any>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large');
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf8').trim();
+  if (!text) return {} as T;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+const decodeParam = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, 'Malformed URL escape in path');
+  }
+};
+
+const dispatch = async (routes: Route[], req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const route = routes.find(r => r.method === req.method && r.pattern.test(url.pathname));
+  if (!route) {
+    sendJson(res, 404, { error: `No route for ${req.method} ${url.pathname}` });
+    return;
+  }
+
+  try {
+    const params = url.pathname.match(route.pattern)!.slice(1).map(decodeParam);
+    await route.handle({ req, res, url, params });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { error: err.message }, err.headers);
+      return;
+    }
+    console.error(`${req.method} ${url.pathname} failed`, err);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' });
+  }
+};
+
+// node:http ignores the promise a handler returns, so nothing may reject out
+// of it: an unhandled rejection would take the whole process down.
+export const createRouter = (routes: Route[]) => async (req: IncomingMessage, res: ServerResponse) => {
+  try {
+    await dispatch(routes, req, res);
+  } catch (err) {
+    console.error(`${req.method} ${req.url} failed`, err);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' });
+    else res.end();
+  }
+};
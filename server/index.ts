@@ -0,0 +1,29 @@
+import { createServer } from 'node:http';
+
+// Local development reads the same .env.local as Vite; deployments set real env vars.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No env file; rely on the process environment
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+
+// Imported after the env file is loaded: provider configuration is read at module load
+const { createRouter } = await import('./http');
+const { routes } = await import('./routes');
+const { adminRoutes } = await import('./adminRoutes');
+const { refreshRate } = await import('./rateService');
+const { DEFAULT_REFRESH_SCHEDULE, parseRefreshSchedule, startRefreshScheduler } = await import('./scheduler');
+
+createServer(createRouter([...routes, ...adminRoutes])).listen(PORT, () => {
+  console.log(`NairaSense rate server listening on http://localhost:${PORT}`);
+});
+
+// RATE_REFRESH_SCHEDULE=off leaves every pair on demand-only refreshes
+if (process.env.RATE_REFRESH_SCHEDULE !== 'off') {
+  const schedule = process.env.RATE_REFRESH_SCHEDULE
+    ? parseRefreshSchedule(process.env.RATE_REFRESH_SCHEDULE)
+    : DEFAULT_REFRESH_SCHEDULE;
+  startRefreshScheduler({ schedule, refresh: refreshRate });
+}
@@ -0,0 +1,150 @@
+import { GoogleGenAI } from '@google/genai';
+import { CurrencyCode, MarketAnalysis, RateMovement, Source } from '../types';
+import { withTimeout } from '../services/rateProviders';
+import { formatRate } from '../services/money';
+import {
+  MAX_DRIVERS,
+  MAX_OUTLOOK_POINTS,
+  MOVEMENT_PERIODS,
+  attachCitations,
+  computeMovement,
+  invertAnalysis,
+  parseAnalysisResponse
+} from '../services/marketAnalysis';
+import { GEMINI_MODEL, geminiQuota, sourceRegistry } from './gemini';
+import { fetchRateHistory, getCanonicalPair } from './rateService';
+import { supabaseAdmin as supabase } from './supabaseAdmin';
+import { createSingleFlight } from './singleFlight';
+
+// Structured market analysis per pair: drivers and outlook from a grounded
+// Gemini search, recent movement from our own stored history. Analyses change
+// slowly and cost a search each, so they are cached in memory and in
+// market_analyses and regenerated at most every ANALYSIS_TTL_MS per pair.
+
+const ANALYSIS_TTL_MS = 6 * 60 * 60 * 1000;
+const ANALYSIS_TIMEOUT_MS = 45000;
+const ANALYSIS_TABLE = 'market_analyses';
+
+const memoryCache = new Map<string, MarketAnalysis>();
+const inFlightAnalyses = createSingleFlight<MarketAnalysis>();
+
+const isFresh = (analysis: MarketAnalysis) => Date.now() - new Date(analysis.generatedAt).getTime() < ANALYSIS_TTL_MS;
+
+const describeMovement = (movement: RateMovement[], to: CurrencyCode): string =>
+  movement.length
+    ? movement
+        .map(m => `- Last ${m.period}: ${formatRate(m.startRate, to, 'en')} -> ${formatRate(m.endRate, to, 'en')} (${(m.change * 100).toFixed(2)}%)`)
+        .join('\n')
+    : '- Not enough stored history yet.';
+
+const buildPrompt = (from: CurrencyCode, to: CurrencyCode, movement: RateMovement[]) => {
+  const isNairaPair = from === 'NGN' || to === 'NGN';
+  return `
+      Search for recent news and data explaining the ${from} to ${to} exchange rate.
+
+      Our own recorded rate history (${to} per 1 ${from}):
+      ${describeMovement(movement, to)}
+
+      1. Identify up to ${MAX_DRIVERS} key drivers of the rate right now, most important first.
+      ${isNairaPair ? "Consider CBN interventions and policy, FX auctions and dollar supply to BDCs, oil prices and output, foreign reserves, and remittance and portfolio flows." : "Consider central bank policy, interest rate differentials, commodity prices and trade flows."}
+      2. Give up to ${MAX_OUTLOOK_POINTS} points on the short-term outlook (the next few weeks). Use hedged language
+      ("may", "could", "analysts expect"). Never predict a specific rate, never recommend buying or selling.
+
+      Write each point as a short heading plus one or two factual sentences stating what the sources report.
+      Then END your response with a JSON block strictly adhering to this schema:
+
+      \`\`\`json
+      {
+        "drivers": [{ "heading": "CBN FX intervention", "detail": "The CBN sold dollars to BDCs this week..." }],
+        "outlook": [{ "heading": "Pressure may ease", "detail": "Analysts expect..." }]
+      }
+      \`\`\`
+    `;
+};
+
+const generateAnalysis = async (from: CurrencyCode, to: CurrencyCode): Promise<MarketAnalysis> => {
+  const now = new Date();
+  // A day of slack so the 30-day change has a candle at its start
+  const historyStart = new Date(now.getTime() - MOVEMENT_PERIODS['30d'] - MOVEMENT_PERIODS['24h']);
+  const movement = await fetchRateHistory(from, to, historyStart, now, '1h')
+    .then(candles => computeMovement(candles, now.getTime()))
+    .catch(err => {
+      console.warn(`Rate history unavailable for ${from}-${to} analysis`, err);
+      return [];
+    });
+
+  const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  geminiQuota.take();
+  const response = await withTimeout(
+    ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildPrompt(from, to, movement),
+      config: {
+        tools: [{ googleSearch: {} }],
+      },
+    }),
+    ANALYSIS_TIMEOUT_MS,
+    'gemini analysis'
+  );
+
+  const { drivers, outlook } = parseAnalysisResponse(response.text || '');
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunkSources: (Source | null)[] = (metadata?.groundingChunks || [])
+    .map((chunk: any) => (chunk.web ? { title: chunk.web.title, uri: chunk.web.uri } : null));
+  const supports = metadata?.groundingSupports || [];
+
+  return {
+    pair: `${from}-${to}`,
+    generatedAt: new Date().toISOString(),
+    model: GEMINI_MODEL,
+    movement,
+    drivers: attachCitations(drivers, supports, chunkSources, sourceRegistry),
+    outlook: attachCitations(outlook, supports, chunkSources, sourceRegistry),
+  };
+};
+
+const loadStoredAnalysis = async (pairId: string): Promise<MarketAnalysis | undefined> => {
+  const { data, error } = await supabase.from(ANALYSIS_TABLE).select('analysis').eq('pair', pairId).maybeSingle();
+  if (error) throw error;
+  return data?.analysis ?? undefined;
+};
+
+const storeAnalysis = (analysis: MarketAnalysis) =>
+  supabase.from(ANALYSIS_TABLE).upsert({
+    pair: analysis.pair,
+    analysis,
+    generated_at: analysis.generatedAt,
+  }).then(({ error }) => {
+    if (error) console.warn('Market analysis cache update failed', error);
+  });
+
+// The cached analysis when it is fresh, otherwise a new one. When generation
+// fails, a stale analysis is still better than none.
+export const getMarketAnalysis = async (from: CurrencyCode, to: CurrencyCode): Promise<MarketAnalysis> => {
+  const { searchFrom, searchTo, pairId, shouldInvert } = getCanonicalPair(from, to);
+  const toRequested = (analysis: MarketAnalysis) => (shouldInvert ? invertAnalysis(analysis, `${from}-${to}`) : analysis);
+
+  let cached = memoryCache.get(pairId);
+  if (!cached) {
+    cached = await loadStoredAnalysis(pairId).catch(err => {
+      console.warn('Market analysis cache lookup failed', err);
+      return undefined;
+    });
+    if (cached) memoryCache.set(pairId, cached);
+  }
+  if (cached && isFresh(cached)) return toRequested(cached);
+
+  try {
+    const analysis = await inFlightAnalyses(pairId, async () => {
+      const generated = await generateAnalysis(searchFrom, searchTo);
+      memoryCache.set(pairId, generated);
+      storeAnalysis(generated);
+      return generated;
+    });
+    return toRequested(analysis);
+  } catch (err) {
+    if (!cached) throw err;
+    console.warn(`Market analysis for ${pairId} could not be refreshed; serving the one from ${cached.generatedAt}`, err);
+    return toRequested(cached);
+  }
+};
@@ -0,0 +1,80 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { CURRENCY_CODES } from '../types';
+import { isCurrencyCode } from '../services/currencyCatalog';
+import { parseDecimal } from '../services/money';
+import { withTimeout } from '../services/rateProviders';
+import { ConversionQuery, parseConversionQuery } from '../services/queryParser';
+import { GEMINI_MODEL, geminiQuota } from './gemini';
+
+// Free-text conversion queries. The deterministic parser answers almost all of
+// them; Gemini only reads the ones it cannot, without search, so a fallback is
+// a cheap call that still draws from the shared quota.
+
+export const MAX_QUERY_LENGTH = 200;
+const QUERY_TIMEOUT_MS = 10000;
+
+const QUERY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    amount: { type: Type.STRING, nullable: true },
+    from: { type: Type.STRING, nullable: true },
+    to: { type: Type.STRING, nullable: true },
+    market: { type: Type.STRING, nullable: true, enum: ['official', 'parallel'] }
+  },
+  required: ['amount', 'from', 'to', 'market']
+};
+
+const buildPrompt = (query: string) => `
+    Read this currency conversion request and extract the amount, the currency to convert from,
+    the currency to convert to and, if one is named, the market.
+
+    Request: ${JSON.stringify(query)}
+
+    - Currencies must be one of: ${CURRENCY_CODES.join(', ')}. Use null for anything else.
+    - If only one currency is named, the other one is NGN (or USD when the named currency is NGN).
+    - amount is a plain decimal string without separators or suffixes ("2.5k" is "2500"); null means 1.
+    - market is "parallel" for black market, street, BDC or aboki rates, "official" for CBN,
+      NAFEM or bank rates, otherwise null.
+  `;
+
+// Only answers that name two supported, different currencies and a positive amount are used
+const toConversionQuery = (answer: unknown): ConversionQuery | null => {
+  if (typeof answer !== 'object' || answer === null) return null;
+  const payload = answer as Partial<Record<'from' | 'to' | 'amount' | 'market', unknown>>;
+  const from = typeof payload.from === 'string' ? payload.from.toUpperCase() : '';
+  const to = typeof payload.to === 'string' ? payload.to.toUpperCase() : '';
+  if (!isCurrencyCode(from) || !isCurrencyCode(to) || from === to) return null;
+
+  const amount = typeof payload.amount === 'string' ? payload.amount.replace(/,/g, '').trim() : '1';
+  const value = parseDecimal(amount);
+  if (!value || value.units <= 0n) return null;
+
+  const market = payload.market === 'official' || payload.market === 'parallel' ? payload.market : undefined;
+  return { amount, from, to, ...(market ? { market } : {}) };
+};
+
+const askGemini = async (query: string): Promise<ConversionQuery | null> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  geminiQuota.take();
+  const response = await withTimeout(
+    ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildPrompt(query),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: QUERY_SCHEMA,
+      },
+    }),
+    QUERY_TIMEOUT_MS,
+    'gemini query'
+  );
+
+  try {
+    return toConversionQuery(JSON.parse(response.text || ''));
+  } catch {
+    return null;
+  }
+};
+
+export const interpretQuery = async (query: string): Promise<ConversionQuery | null> =>
+  parseConversionQuery(query) ?? askGemini(query);
@@ -0,0 +1,72 @@
+import { createHash } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { CurrencyCode, ExchangeData, PublicRate } from '../types';
+import { toCsv } from '../services/batchConversion';
+import { RateGraph, resolveRate } from '../services/rateGraph';
+
+// Read-only view of currency_rates for partner sites and the embeddable widget.
+// It only ever reads stored rows, so third-party traffic cannot trigger
+// provider (and AI) fetches, and responses are cacheable by browsers and CDNs.
+
+export const PUBLIC_CACHE_CONTROL = 'public, max-age=60, stale-while-revalidate=300';
+
+export const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+  'Access-Control-Max-Age': '86400',
+};
+
+const toPublicRate = (pair: string, data: ExchangeData): PublicRate => {
+  const [from, to] = pair.split('-') as [CurrencyCode, CurrencyCode];
+  return {
+    pair,
+    from,
+    to,
+    rate: data.rate,
+    officialRate: data.officialRate?.rate,
+    parallelRate: data.parallelRate?.rate,
+    fetchedAt: data.fetchedAt,
+    origin: data.origin,
+  };
+};
+
+// Without `pairs`, every stored row as-is. Requested pairs that aren't stored
+// directly are inverted or triangulated from stored rows, and skipped if neither works.
+export const buildPublicRates = (stored: Record<string, ExchangeData>, pairs?: [CurrencyCode, CurrencyCode][]): PublicRate[] => {
+  if (!pairs) {
+    return Object.entries(stored)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([pair, data]) => toPublicRate(pair, data));
+  }
+
+  const graph: RateGraph = Object.fromEntries(
+    Object.entries(stored).map(([pair, data]) => [pair, { data, fetchedAt: new Date(data.fetchedAt).getTime() }])
+  );
+  return pairs.flatMap(([from, to]) => {
+    const data = resolveRate(graph, from, to, { maxAgeMs: Infinity });
+    return data ? [toPublicRate(`${from}-${to}`, data)] : [];
+  });
+};
+
+export const publicRatesToCsv = (rates: PublicRate[]): string =>
+  toCsv([
+    ['pair', 'from', 'to', 'rate', 'official_rate', 'parallel_rate', 'fetched_at', 'origin'],
+    ...rates.map(r => [r.pair, r.from, r.to, r.rate, r.officialRate, r.parallelRate, r.fetchedAt, r.origin])
+  ]);
+
+// Sends `body` with a content-derived ETag, answering 304 when the client already has it
+export const sendCacheable = (req: IncomingMessage, res: ServerResponse, body: string, contentType: string) => {
+  const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+  const headers = { ...CORS_HEADERS, 'Cache-Control': PUBLIC_CACHE_CONTROL, ETag: etag, Vary: 'Accept-Encoding' };
+
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)) {
+    res.writeHead(304, headers);
+    res.end();
+    return;
+  }
+  res.writeHead(200, { ...headers, 'Content-Type': contentType });
+  res.end(body);
+};
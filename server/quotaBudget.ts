@@ -0,0 +1,48 @@
+// Token bucket shared by every caller of a rate-limited upstream API. Bursts
+// can spend up to `capacity` calls at once; after that calls are refused until
+// tokens refill at `refillPerMinute`.
+
+export class QuotaExhaustedError extends Error {
+  constructor(public budgetId: string) {
+    super(`${budgetId} call budget exhausted; try again shortly`);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+export interface QuotaBudgetOptions {
+  id: string;
+  capacity: number;
+  refillPerMinute: number;
+  now?: () => number;
+}
+
+export interface QuotaBudget {
+  id: string;
+  remaining: () => number;
+  // Takes one token, or throws QuotaExhaustedError if none are left
+  take: () => void;
+}
+
+export const createQuotaBudget = ({ id, capacity, refillPerMinute, now = Date.now }: QuotaBudgetOptions): QuotaBudget => {
+  let tokens = capacity;
+  let lastRefill = now();
+
+  const refill = () => {
+    const current = now();
+    tokens = Math.min(capacity, tokens + ((current - lastRefill) / 60000) * refillPerMinute);
+    lastRefill = current;
+  };
+
+  return {
+    id,
+    remaining: () => {
+      refill();
+      return Math.floor(tokens);
+    },
+    take: () => {
+      refill();
+      if (tokens < 1) throw new QuotaExhaustedError(id);
+      tokens -= 1;
+    }
+  };
+};
@@ -0,0 +1,142 @@
+import { ExchangeData, RateOverride } from '../types';
+import { toMarketRate } from '../services/markets';
+import { supabaseAdmin as supabase } from './supabaseAdmin';
+
+// Manual rates pinned by admins for canonical pairs. An active override (not
+// cleared, not expired) is served instead of provider quotes and stored rates.
+// At most one override per pair is active: a new one supersedes the last.
+
+const OVERRIDE_TABLE = 'rate_overrides';
+// Active overrides are checked on every rate request; changes made through
+// another server instance show up within this long.
+const RELOAD_MS = 30 * 1000;
+
+export const MAX_OVERRIDE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface OverrideInput {
+  pair: string;
+  officialRate?: number;
+  parallelRate?: number;
+  note: string;
+  expiresAt: string;
+}
+
+interface OverrideRow {
+  id: number;
+  pair: string;
+  official_rate: number | null;
+  parallel_rate: number | null;
+  note: string;
+  expires_at: string;
+  created_by: string;
+  created_at: string;
+  cleared_at: string | null;
+  cleared_by: string | null;
+}
+
+const mapRow = (row: OverrideRow): RateOverride => ({
+  id: row.id,
+  pair: row.pair,
+  officialRate: row.official_rate != null ? Number(row.official_rate) : undefined,
+  parallelRate: row.parallel_rate != null ? Number(row.parallel_rate) : undefined,
+  note: row.note,
+  expiresAt: new Date(row.expires_at).toISOString(),
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at).toISOString(),
+  clearedAt: row.cleared_at ? new Date(row.cleared_at).toISOString() : undefined,
+  clearedBy: row.cleared_by || undefined,
+});
+
+let active: { overrides: Record<string, RateOverride>; loadedAt: number } | null = null;
+
+const fetchActiveOverrides = async (): Promise<Record<string, RateOverride>> => {
+  const { data, error } = await supabase
+    .from(OVERRIDE_TABLE)
+    .select('*')
+    .is('cleared_at', null)
+    .gt('expires_at', new Date().toISOString());
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((row: OverrideRow) => [row.pair, mapRow(row)]));
+};
+
+// Active overrides keyed by pair id. A failed lookup serves none rather than
+// failing the rate request; the next request tries again.
+export const getActiveOverrides = async (): Promise<Record<string, RateOverride>> => {
+  if (!active || Date.now() - active.loadedAt >= RELOAD_MS) {
+    try {
+      active = { overrides: await fetchActiveOverrides(), loadedAt: Date.now() };
+    } catch (err) {
+      console.warn('Rate override lookup failed', err);
+      return active?.overrides ?? {};
+    }
+  }
+  // Cached overrides may have expired since they were loaded
+  const now = Date.now();
+  return Object.fromEntries(
+    Object.entries(active.overrides).filter(([, override]) => new Date(override.expiresAt).getTime() > now)
+  );
+};
+
+export const getActiveOverride = async (pairId: string): Promise<RateOverride | undefined> =>
+  (await getActiveOverrides())[pairId];
+
+// Served like any other rate; the admin's note is internal and stays out of the summary
+export const overrideToExchangeData = (override: RateOverride): ExchangeData => {
+  const headline = override.parallelRate ?? override.officialRate!;
+  return {
+    rate: headline,
+    officialRate: toMarketRate(override.officialRate, override.createdAt, []),
+    parallelRate: toMarketRate(override.parallelRate, override.createdAt, []),
+    summary: 'Rate set manually by our team while live sources are unavailable or being checked.',
+    fetchedAt: override.createdAt,
+    origin: 'override',
+    provider: 'override',
+    sources: [],
+  };
+};
+
+export const listOverrides = async (limit = 50): Promise<RateOverride[]> => {
+  const { data, error } = await supabase
+    .from(OVERRIDE_TABLE)
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(mapRow);
+};
+
+const clearActive = async (match: { id?: number; pair?: string }, clearedBy: string): Promise<RateOverride[]> => {
+  let query = supabase
+    .from(OVERRIDE_TABLE)
+    .update({ cleared_at: new Date().toISOString(), cleared_by: clearedBy })
+    .is('cleared_at', null);
+  if (match.id !== undefined) query = query.eq('id', match.id);
+  if (match.pair !== undefined) query = query.eq('pair', match.pair);
+  const { data, error } = await query.select('*');
+  if (error) throw error;
+  active = null;
+  return (data || []).map(mapRow);
+};
+
+export const createOverride = async (input: OverrideInput, createdBy: string): Promise<RateOverride> => {
+  await clearActive({ pair: input.pair }, createdBy);
+  const { data, error } = await supabase
+    .from(OVERRIDE_TABLE)
+    .insert({
+      pair: input.pair,
+      official_rate: input.officialRate ?? null,
+      parallel_rate: input.parallelRate ?? null,
+      note: input.note,
+      expires_at: input.expiresAt,
+      created_by: createdBy,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+  active = null;
+  return mapRow(data);
+};
+
+// Returns the cleared override, or undefined when it was not active
+export const clearOverride = async (id: number, clearedBy: string): Promise<RateOverride | undefined> =>
+  (await clearActive({ id }, clearedBy))[0];
@@ -0,0 +1,108 @@
+import { ExchangeData, QuarantineStatus, QuarantinedRate, SanityIssue } from '../types';
+import { describeIssues } from '../services/rateSanity';
+import { supabaseAdmin as supabase } from './supabaseAdmin';
+
+// Quotes that failed the sanity checks, kept with their reasons for review.
+// Pending rows are the review queue; approving one stores the quote as if it
+// had passed (see approveQuarantinedRate in rateService), rejecting discards it.
+
+const QUARANTINE_TABLE = 'rate_quarantine';
+
+export interface QuarantineReview {
+  reviewedBy?: string;
+  note?: string;
+}
+
+export class QuarantineReviewError extends Error {
+  constructor(public reason: 'not-found' | 'already-reviewed', message: string) {
+    super(message);
+    this.name = 'QuarantineReviewError';
+  }
+}
+
+interface QuarantineRow {
+  id: number;
+  pair: string;
+  candidate: ExchangeData;
+  issues: SanityIssue[] | null;
+  reason: string;
+  status: QuarantineStatus;
+  created_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  review_note: string | null;
+}
+
+const mapRow = (row: QuarantineRow): QuarantinedRate => ({
+  id: row.id,
+  pair: row.pair,
+  candidate: row.candidate,
+  issues: row.issues || [],
+  reason: row.reason,
+  status: row.status,
+  createdAt: new Date(row.created_at).toISOString(),
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at).toISOString() : undefined,
+  reviewedBy: row.reviewed_by || undefined,
+  reviewNote: row.review_note || undefined,
+});
+
+// Postgres unique_violation: another server already holds a pending entry for
+// the pair (rate_quarantine_one_pending_per_pair_idx)
+const UNIQUE_VIOLATION = '23505';
+
+export const quarantineRate = async (pair: string, candidate: ExchangeData, issues: SanityIssue[]): Promise<void> => {
+  const { error } = await supabase.from(QUARANTINE_TABLE).insert({
+    pair,
+    candidate,
+    issues,
+    reason: describeIssues(issues),
+    status: 'pending',
+  });
+  if (error && error.code !== UNIQUE_VIOLATION) throw error;
+};
+
+// The pair's open review entry, if any. While one exists the pair is not
+// refreshed, so the same move isn't fetched and queued again on every miss.
+export const getPendingQuarantine = async (pair: string): Promise<QuarantinedRate | undefined> => {
+  const { data, error } = await supabase
+    .from(QUARANTINE_TABLE)
+    .select('*')
+    .eq('pair', pair)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapRow(data) : undefined;
+};
+
+// Oldest first, so the queue is worked in arrival order
+export const listQuarantinedRates = async (status: QuarantineStatus = 'pending'): Promise<QuarantinedRate[]> => {
+  const { data, error } = await supabase
+    .from(QUARANTINE_TABLE)
+    .select('*')
+    .eq('status', status)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(mapRow);
+};
+
+export const getQuarantinedRate = async (id: number): Promise<QuarantinedRate | undefined> => {
+  const { data, error } = await supabase.from(QUARANTINE_TABLE).select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? mapRow(data) : undefined;
+};
+
+export const markQuarantineReviewed = async (
+  id: number,
+  status: Exclude<QuarantineStatus, 'pending'>,
+  review: QuarantineReview = {}
+): Promise<void> => {
+  const { error } = await supabase.from(QUARANTINE_TABLE).update({
+    status,
+    reviewed_at: new Date().toISOString(),
+    reviewed_by: review.reviewedBy ?? null,
+    review_note: review.note ?? null,
+  }).eq('id', id);
+  if (error) throw error;
+};
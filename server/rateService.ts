@@ -0,0 +1,496 @@
+import {
+    ExchangeData,
+    CurrencyCode,
+    MarketRate,
+    QuarantinedRate,
+    RateConsensus,
+    RateOrigin,
+    RateSnapshot,
+    ServiceStatus,
+    Source,
+    SourceTrustSummary
+} from "../types";
+import {
+    RateProvider,
+    createJsonFeedProvider,
+    createManualProvider,
+    createMockProvider,
+    fetchFromProviderChain,
+    resolveProviderChain
+} from "../services/rateProviders";
+import { buildConsensus } from "../services/consensus";
+import {
+    HistoryInterval,
+    RateCandle,
+    RateHistoryEntry,
+    createSupabaseHistoryRepository,
+    getRateHistory,
+    invertCandles
+} from "../services/rateHistory";
+import { invertExchangeData, toMarketRate } from "../services/markets";
+import { RateGraph, candidateLegPairs, triangulate } from "../services/rateGraph";
+import { DEFAULT_MAX_JUMP, SANITY_HISTORY_WINDOW_MS, SuspiciousRateError, checkRateSanity } from "../services/rateSanity";
+import { geminiProvider } from "./gemini";
+import { supabaseAdmin as supabase } from "./supabaseAdmin";
+import { createSingleFlight } from "./singleFlight";
+import { BUILT_IN_EMERGENCY_RATES, getEmergencyRates } from "./emergencyRates";
+import { getActiveOverride, getActiveOverrides, overrideToExchangeData } from "./rateOverrides";
+import {
+    QuarantineReview,
+    QuarantineReviewError,
+    getPendingQuarantine,
+    getQuarantinedRate,
+    markQuarantineReviewed,
+    quarantineRate
+} from "./rateQuarantine";
+import { BackoffOptions, CircuitBreaker, createCircuitBreaker, withResilience } from "./resilience";
+
+const CACHE_DURATION_MS = 30 * 60 * 1000; // 30 minutes
+
+// RATE_MAX_JUMP=0.4 widens the move from recent history accepted without review
+const MAX_RATE_JUMP = Number(process.env.RATE_MAX_JUMP) || DEFAULT_MAX_JUMP;
+
+// Providers are tried in this order unless RATE_PROVIDER_ORDER overrides it.
+// The mock providers only take part when named explicitly.
+const DEFAULT_PROVIDER_ORDER = ['gemini', 'feed', 'manual'];
+
+const historyRepository = createSupabaseHistoryRepository(supabase);
+
+// Retry policy per provider; local sources never benefit from a retry
+const BACKOFF: Record<string, Omit<BackoffOptions, 'deadlineMs'>> = {
+    gemini: { retries: 2, baseDelayMs: 1000, maxDelayMs: 8000 },
+    feed: { retries: 2, baseDelayMs: 500, maxDelayMs: 4000 }
+};
+const NO_RETRY = { retries: 0, baseDelayMs: 0, maxDelayMs: 0 };
+
+// One breaker per provider id: three consecutive failures open the circuit for a minute
+const breakers: Record<string, CircuitBreaker> = {};
+
+const resilient = (provider: RateProvider): RateProvider => {
+    breakers[provider.id] = createCircuitBreaker({ id: provider.id, failureThreshold: 3, cooldownMs: 60 * 1000 });
+    return withResilience(provider, { breaker: breakers[provider.id], backoff: BACKOFF[provider.id] || NO_RETRY });
+};
+
+const buildProviderChain = (): RateProvider[] => {
+    const order = process.env.RATE_PROVIDER_ORDER
+        ? process.env.RATE_PROVIDER_ORDER.split(',')
+        : DEFAULT_PROVIDER_ORDER;
+
+    return resolveProviderChain(order, {
+        gemini: geminiProvider,
+        feed: process.env.RATE_FEED_URL
+            ? createJsonFeedProvider({ url: process.env.RATE_FEED_URL, consensus: process.env.RATE_FEED_CONSENSUS === 'true' })
+            : undefined,
+        manual: process.env.MANUAL_RATES_CSV ? createManualProvider({ csv: process.env.MANUAL_RATES_CSV }) : undefined,
+        mock: createMockProvider({ rates: BUILT_IN_EMERGENCY_RATES }),
+        'mock-error': createMockProvider({ id: 'mock-error', rates: BUILT_IN_EMERGENCY_RATES, behaviour: 'error' }),
+        'mock-hang': createMockProvider({ id: 'mock-hang', rates: BUILT_IN_EMERGENCY_RATES, behaviour: 'hang' })
+    }).map(resilient);
+};
+
+const rateProviders = buildProviderChain();
+
+export const getServiceStatus = (): ServiceStatus => {
+    const providers = rateProviders.map(provider => breakers[provider.id].status());
+    return { degraded: providers.some(p => p.state !== 'closed'), providers };
+};
+
+// Reduces one market's quotes to a consensus. Sources and timestamp come from
+// the highest-priority quote that survived outlier rejection.
+const buildMarketConsensus = (quotes: ExchangeData[], pick: (q: ExchangeData) => MarketRate | undefined) => {
+    const withRate = quotes.filter(q => pick(q));
+    if (withRate.length === 0) return undefined;
+
+    const result = buildConsensus(withRate.map(q => ({ providerId: q.provider || 'unknown', rate: pick(q)!.rate })));
+    const primary = withRate.find(q => result.inliers.some(i => i.rate === pick(q)!.rate)) || withRate[0];
+    return { result, primary, marketRate: { ...pick(primary)!, rate: result.rate } };
+};
+
+// Reduces the consensus providers' quotes to one rate per market. The headline
+// rate (and summary, confidence) follows the parallel market when one was
+// quoted, otherwise the official one.
+const combineQuotes = (quotes: ExchangeData[], from: CurrencyCode, to: CurrencyCode): ExchangeData => {
+    const official = buildMarketConsensus(quotes, q => q.officialRate);
+    const parallel = buildMarketConsensus(quotes, q => q.parallelRate);
+    const headline = parallel || official;
+    if (!headline) {
+        throw new Error(`Providers returned no market rates for ${from}-${to}`);
+    }
+
+    [official, parallel].forEach(market => {
+        if (market && market.result.rejectedCount > 0) {
+            console.warn(`Rejected ${market.result.rejectedCount} outlier quote(s) for ${from}-${to}`, market.result.outliers);
+        }
+    });
+
+    return {
+        ...headline.primary,
+        rate: headline.result.rate,
+        officialRate: official?.marketRate,
+        parallelRate: parallel?.marketRate,
+        confidence: headline.result.confidence,
+        consensus: {
+            rate: headline.result.rate,
+            spread: headline.result.spread,
+            quoteCount: headline.result.quoteCount,
+            rejectedCount: headline.result.rejectedCount
+        }
+    };
+};
+
+// Walks the provider chain in priority order. Live sources (Gemini's samples,
+// RATE_FEED_CONSENSUS feeds) are combined into a consensus; static sources
+// such as the manual table are only fallbacks and never blended in.
+const fetchProviderRate = (from: CurrencyCode, to: CurrencyCode): Promise<ExchangeData> =>
+    fetchFromProviderChain(rateProviders, from, to, quotes => combineQuotes(quotes, from, to));
+
+// A currency_rates row as stored by storeRate
+interface CurrencyRateRow {
+    pair: string;
+    rate: number;
+    official_rate: number | null;
+    official_updated_at: string | null;
+    official_sources: Source[] | null;
+    parallel_rate: number | null;
+    parallel_updated_at: string | null;
+    parallel_sources: Source[] | null;
+    summary: string;
+    sources: Source[] | null;
+    confidence: number | null;
+    consensus: RateConsensus | null;
+    provider: string | null;
+    model: string | null;
+    source_trust: SourceTrustSummary | null;
+    updated_at: string;
+}
+
+// Helpers for Data processing
+const mapDbToExchangeData = (dbData: CurrencyRateRow, origin: Extract<RateOrigin, 'db-fresh' | 'db-stale'>): ExchangeData => ({
+    rate: dbData.rate,
+    officialRate: toMarketRate(dbData.official_rate ?? undefined, dbData.official_updated_at || dbData.updated_at, dbData.official_sources || dbData.sources || []),
+    parallelRate: toMarketRate(dbData.parallel_rate ?? undefined, dbData.parallel_updated_at || dbData.updated_at, dbData.parallel_sources || dbData.sources || []),
+    summary: dbData.summary,
+    fetchedAt: new Date(dbData.updated_at).toISOString(),
+    origin,
+    provider: dbData.provider || undefined,
+    model: dbData.model || undefined,
+    sources: dbData.sources || [],
+    confidence: dbData.confidence ?? undefined,
+    consensus: dbData.consensus || undefined,
+    sourceTrust: dbData.source_trust || undefined
+});
+
+// The built-in table has no quote time of its own, so fetchedAt is when it was served
+const emergencyExchangeData = (rate: number): ExchangeData => ({
+    rate,
+    fetchedAt: new Date().toISOString(),
+    origin: 'emergency',
+    summary: "High demand detected. Showing estimated market rates while we reconnect to live data.",
+    sources: []
+});
+
+const emergencyGraph = (rates: Record<string, number>): RateGraph => Object.fromEntries(
+    Object.entries(rates).map(([pair, rate]) => [pair, { data: emergencyExchangeData(rate), fetchedAt: Date.now() }])
+);
+
+// Stored legs, with active overrides taking their place
+const loadCachedRateGraph = async (pairs: string[]): Promise<RateGraph> => {
+    const { data, error } = await supabase
+        .from('currency_rates')
+        .select('*')
+        .in('pair', pairs);
+    if (error) throw error;
+
+    const overrides = await getActiveOverrides();
+    return {
+        ...Object.fromEntries(
+            (data || []).map((row: CurrencyRateRow) => [row.pair, { data: mapDbToExchangeData(row, 'db-fresh'), fetchedAt: new Date(row.updated_at).getTime() }])
+        ),
+        ...Object.fromEntries(
+            Object.values(overrides)
+                .filter(override => pairs.includes(override.pair))
+                .map(override => [override.pair, { data: overrideToExchangeData(override), fetchedAt: Date.now() }])
+        )
+    };
+};
+
+// Writes a quote as the pair's current rate and appends it to the history.
+// Failures are logged, not thrown: the quote is still served from memory.
+// `current: false` only appends, for quotes older than the stored rate.
+const storeRate = async (
+    pairId: string,
+    data: ExchangeData,
+    recordedAt: string = new Date().toISOString(),
+    { current = true }: { current?: boolean } = {}
+): Promise<void> => {
+    const writes: Promise<void>[] = [];
+    if (current) {
+        writes.push(Promise.resolve(supabase.from('currency_rates').upsert({
+            pair: pairId,
+            rate: data.rate,
+            official_rate: data.officialRate?.rate ?? null,
+            official_updated_at: data.officialRate?.updatedAt ?? null,
+            official_sources: data.officialRate?.sources ?? null,
+            parallel_rate: data.parallelRate?.rate ?? null,
+            parallel_updated_at: data.parallelRate?.updatedAt ?? null,
+            parallel_sources: data.parallelRate?.sources ?? null,
+            summary: data.summary,
+            sources: data.sources,
+            confidence: data.confidence ?? null,
+            consensus: data.consensus || null,
+            provider: data.provider ?? null,
+            model: data.model ?? null,
+            source_trust: data.sourceTrust ?? null,
+            updated_at: recordedAt
+        })).then(({ error }) => {
+            if (error) console.warn("Background cache update failed", error);
+        }));
+    }
+
+    // Keep every quote, not just the latest, for the time-series API
+    writes.push(historyRepository.append({
+        pair: pairId,
+        rate: data.rate,
+        officialRate: data.officialRate?.rate,
+        parallelRate: data.parallelRate?.rate,
+        sources: data.sources,
+        provider: data.provider,
+        recordedAt
+    }).catch(error => console.warn("Rate history append failed", error)));
+
+    await Promise.all(writes);
+};
+
+// Rates recorded for the pair over the sanity window. Without history only
+// the sanity bands and the official/parallel check apply.
+const loadRecentHistory = (pairId: string): Promise<RateHistoryEntry[]> => {
+    const now = new Date();
+    return historyRepository.list(pairId, new Date(now.getTime() - SANITY_HISTORY_WINDOW_MS), now).catch(error => {
+        console.warn(`Rate history unavailable for ${pairId} sanity check`, error);
+        return [];
+    });
+};
+
+// In-flight provider fetches per pair id. Concurrent cache misses (and the
+// scheduler) share one fetch instead of each spending provider quota.
+const inFlightRefreshes = createSingleFlight<ExchangeData>();
+
+// Fetches a fresh consensus rate for a canonical pair and persists it. Quotes
+// failing the sanity checks are quarantined instead and a SuspiciousRateError
+// is thrown, so callers fall back to the stored rate. A pair with a quote
+// still awaiting review throws the same error without calling the providers.
+export const refreshRate = (from: CurrencyCode, to: CurrencyCode): Promise<ExchangeData> => {
+    const pairId = `${from}-${to}`;
+    return inFlightRefreshes(pairId, async () => {
+        const pending = await getPendingQuarantine(pairId).catch(error => {
+            console.warn(`Quarantine lookup failed for ${pairId}`, error);
+            return undefined;
+        });
+        if (pending) throw new SuspiciousRateError(pairId, pending.issues);
+
+        const providerResult = await fetchProviderRate(from, to);
+
+        const issues = checkRateSanity(providerResult, from, to, await loadRecentHistory(pairId), MAX_RATE_JUMP);
+        if (issues.length > 0) {
+            await quarantineRate(pairId, providerResult, issues)
+                .catch(error => console.warn(`Quarantine write failed for ${pairId}`, error));
+            throw new SuspiciousRateError(pairId, issues);
+        }
+
+        if (providerResult.rate > 0) {
+            storeRate(pairId, providerResult);
+        }
+        return providerResult;
+    });
+};
+
+// --- Quarantine review ---
+
+const pendingQuarantinedRate = async (id: number): Promise<QuarantinedRate> => {
+    const entry = await getQuarantinedRate(id);
+    if (!entry) throw new QuarantineReviewError('not-found', `No quarantined rate with id ${id}`);
+    if (entry.status !== 'pending') throw new QuarantineReviewError('already-reviewed', `Quarantined rate ${id} was already ${entry.status}`);
+    return entry;
+};
+
+// Stores a quarantined quote as if it had passed the checks. It only becomes
+// the current rate when nothing newer has been stored since it was fetched.
+export const approveQuarantinedRate = async (id: number, review: QuarantineReview = {}): Promise<void> => {
+    const entry = await pendingQuarantinedRate(id);
+    const { data: stored, error } = await supabase
+        .from('currency_rates')
+        .select('updated_at')
+        .eq('pair', entry.pair)
+        .maybeSingle();
+    if (error) throw error;
+
+    const current = !stored || new Date(stored.updated_at).getTime() <= new Date(entry.createdAt).getTime();
+    await storeRate(entry.pair, entry.candidate, entry.createdAt, { current });
+    await markQuarantineReviewed(id, 'approved', review);
+};
+
+export const rejectQuarantinedRate = async (id: number, review: QuarantineReview = {}): Promise<void> => {
+    await pendingQuarantinedRate(id);
+    await markQuarantineReviewed(id, 'rejected', review);
+};
+
+// Every currency_rates row as stored, keyed by pair id. Never calls providers.
+export const loadStoredRates = async (): Promise<Record<string, ExchangeData>> => {
+    const { data, error } = await supabase.from('currency_rates').select('*');
+    if (error) throw error;
+    return Object.fromEntries((data || []).map((row: CurrencyRateRow) => {
+        const fresh = Date.now() - new Date(row.updated_at).getTime() < CACHE_DURATION_MS;
+        return [row.pair, mapDbToExchangeData(row, fresh ? 'db-fresh' : 'db-stale')];
+    }));
+};
+
+// Stored rates as they are served: active overrides replace their pair's row
+export const loadServedRates = async (): Promise<Record<string, ExchangeData>> => {
+    const [stored, overrides] = await Promise.all([loadStoredRates(), getActiveOverrides()]);
+    return {
+        ...stored,
+        ...Object.fromEntries(Object.values(overrides).map(override => [override.pair, overrideToExchangeData(override)]))
+    };
+};
+
+// Every served rate, with the emergency table filling pairs that were never
+// fetched. Reads only: a snapshot never triggers provider calls.
+export const fetchRateSnapshot = async (): Promise<RateSnapshot> => {
+    const rates: Record<string, ExchangeData> = Object.fromEntries(
+        Object.entries(await getEmergencyRates()).map(([pair, rate]) => [pair, emergencyExchangeData(rate)])
+    );
+
+    try {
+        Object.assign(rates, await loadServedRates());
+    } catch (dbError) {
+        console.warn("Snapshot lookup failed; serving emergency rates", dbError);
+    }
+
+    return { takenAt: new Date().toISOString(), rates };
+};
+
+export interface CanonicalPair {
+    searchFrom: CurrencyCode;
+    searchTo: CurrencyCode;
+    pairId: string;
+    shouldInvert: boolean;
+}
+
+// Rates are fetched and stored as Foreign -> NGN; NGN -> Foreign is served by inverting.
+export const getCanonicalPair = (from: CurrencyCode, to: CurrencyCode): CanonicalPair => {
+    if (from === 'NGN' && to !== 'NGN') {
+        return { searchFrom: to, searchTo: from, pairId: `${to}-${from}`, shouldInvert: true };
+    }
+    return { searchFrom: from, searchTo: to, pairId: `${from}-${to}`, shouldInvert: false };
+};
+
+export const fetchRealTimeRate = async (from: CurrencyCode, to: CurrencyCode): Promise<ExchangeData> => {
+  try {
+    // 1. Determine Canonical Pair (Always fetch/store as Foreign -> NGN if possible)
+    const { searchFrom, searchTo, pairId, shouldInvert } = getCanonicalPair(from, to);
+    let resultToReturn: ExchangeData | null = null;
+    let staleRecord: CurrencyRateRow | null = null;
+
+    // 1a. ADMIN OVERRIDE: a pinned rate wins over every source until it expires
+    const override = await getActiveOverride(pairId);
+    if (override) {
+        const overridden = overrideToExchangeData(override);
+        return shouldInvert ? invertExchangeData(overridden) : overridden;
+    }
+
+    // 1b. CROSS RATES: derive non-NGN pairs from fresh cached legs before searching
+    if (searchFrom !== 'NGN' && searchTo !== 'NGN' && searchFrom !== searchTo) {
+      try {
+        const graph = await loadCachedRateGraph(candidateLegPairs(searchFrom, searchTo));
+        const derived = triangulate(graph, searchFrom, searchTo, { maxAgeMs: CACHE_DURATION_MS });
+        if (derived) return derived;
+      } catch (dbError) {
+        console.warn("Cross-rate lookup failed", dbError);
+      }
+    }
+
+    // 2. CHECK SUPABASE (Fetch regardless of freshness to use as fallback)
+    try {
+      const { data, error } = await supabase
+        .from('currency_rates')
+        .select('*')
+        .eq('pair', pairId)
+        .returns<CurrencyRateRow[]>()
+        .single();
+
+      if (!error && data) {
+        staleRecord = data;
+        const updatedAt = new Date(data.updated_at).getTime();
+        const now = new Date().getTime();
+        
+        // If fresh, use immediately
+        if (now - updatedAt < CACHE_DURATION_MS) {
+          resultToReturn = mapDbToExchangeData(data, 'db-fresh');
+        }
+      }
+    } catch (dbError) {
+      console.warn("Supabase cache check failed", dbError);
+    }
+
+    // 3. FETCH FROM PROVIDERS (If no fresh cache) AND SAVE TO SUPABASE
+    if (!resultToReturn) {
+        try {
+            resultToReturn = await refreshRate(searchFrom, searchTo);
+        } catch (providerError) {
+            if (providerError instanceof SuspiciousRateError) {
+                console.warn(providerError.message);
+            } else {
+                console.error("All rate providers failed:", providerError);
+            }
+
+            // 5. FALLBACK 1: STALE DATABASE DATA
+            if (staleRecord) {
+                console.warn(`Falling back to stale data for ${pairId}`);
+                resultToReturn = mapDbToExchangeData(staleRecord, 'db-stale');
+            } else {
+                // Built-in table plus admin edits from emergency_rates
+                const emergencyRates = await getEmergencyRates();
+
+                // 6. FALLBACK 2: EMERGENCY STATIC DATA (Cold start + API Error)
+                if (emergencyRates[pairId]) {
+                    console.warn(`Using emergency static fallback for ${pairId}`);
+                    resultToReturn = emergencyExchangeData(emergencyRates[pairId]);
+                }
+                // 7. FALLBACK 3: CROSS RATE FROM EMERGENCY DATA
+                else {
+                    const derived = triangulate(emergencyGraph(emergencyRates), searchFrom, searchTo, { maxAgeMs: Infinity });
+                    // Only throw if absolutely no data is available
+                    if (!derived) throw providerError;
+
+                    console.warn(`Using emergency cross-rate fallback for ${pairId}`);
+                    resultToReturn = derived;
+                }
+            }
+        }
+    }
+
+    // 8. RETURN & INVERT IF NEEDED
+    if (resultToReturn) {
+        return shouldInvert ? invertExchangeData(resultToReturn) : resultToReturn;
+    }
+    
+    throw new Error("Unexpected state: No rate data available");
+
+  } catch (error) {
+    console.error("Failed to fetch rates:", error);
+    throw error;
+  }
+};
+
+// Candles for the requested direction; NGN -> Foreign history is the inverted canonical series.
+export const fetchRateHistory = async (
+    from: CurrencyCode,
+    to: CurrencyCode,
+    start: Date,
+    end: Date,
+    interval: HistoryInterval
+): Promise<RateCandle[]> => {
+    const { pairId, shouldInvert } = getCanonicalPair(from, to);
+    const candles = await getRateHistory(pairId, start, end, interval, historyRepository);
+    return shouldInvert ? invertCandles(candles) : candles;
+};
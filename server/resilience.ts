@@ -0,0 +1,221 @@
+import { CircuitState, ProviderStatus } from '../types';
+import {
+  ProviderHttpError,
+  ProviderTimeoutError,
+  RateProvider,
+  RateUnavailableError,
+  withTimeout
+} from '../services/rateProviders';
+import { RateResponseError } from '../services/rateSchema';
+import { LowTrustSourcesError } from '../services/sourceTrust';
+import { QuotaExhaustedError } from './quotaBudget';
+
+// Retries, backoff and circuit breaking for rate providers.
+
+// --- Error classification ---
+
+export type ProviderErrorKind =
+  | 'rate-limit'  // upstream 429 / quota
+  | 'timeout'
+  | 'server'      // 5xx or network failure
+  | 'malformed'   // answered, but not with a usable rate
+  | 'client'      // 4xx other than 429: bad key, bad request
+  | 'unavailable' // provider has no rate for the pair
+  | 'budget'      // our own quota budget refused the call
+  | 'circuit-open'
+  | 'unknown';
+
+export class CircuitOpenError extends Error {
+  constructor(public providerId: string, public retryAt: number) {
+    super(`${providerId} is failing; skipping it until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const statusOf = (err: unknown): number | undefined => {
+  if (typeof err !== 'object' || err === null) return undefined;
+  const { status, code } = err as { status?: unknown; code?: unknown };
+  const value = Number(status ?? code);
+  return Number.isInteger(value) && value >= 100 && value < 600 ? value : undefined;
+};
+
+export const classifyError = (err: unknown): ProviderErrorKind => {
+  if (err instanceof CircuitOpenError) return 'circuit-open';
+  if (err instanceof QuotaExhaustedError) return 'budget';
+  if (err instanceof RateUnavailableError) return 'unavailable';
+  if (err instanceof ProviderTimeoutError) return 'timeout';
+  if (err instanceof RateResponseError) return 'malformed';
+  // Another grounded search may well cite better sources
+  if (err instanceof LowTrustSourcesError) return 'malformed';
+
+  const status = err instanceof ProviderHttpError ? err.status : statusOf(err);
+  if (status === 429) return 'rate-limit';
+  if (status !== undefined && status >= 500) return 'server';
+  if (status !== undefined && status >= 400) return 'client';
+
+  const message = err instanceof Error ? err.message : String(err);
+  if (/429|quota|resource_exhausted/i.test(message)) return 'rate-limit';
+  if (/timed? ?out/i.test(message)) return 'timeout';
+  if (/fetch failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up/i.test(message)) return 'server';
+  if (/no usable rate/i.test(message)) return 'malformed';
+  return 'unknown';
+};
+
+const RETRYABLE: ReadonlySet<ProviderErrorKind> = new Set(['rate-limit', 'timeout', 'server', 'malformed']);
+
+// Errors that say nothing about the provider's health and must not trip its breaker
+const NEUTRAL: ReadonlySet<ProviderErrorKind> = new Set(['unavailable', 'budget', 'circuit-open']);
+
+export const isRetryable = (kind: ProviderErrorKind) => RETRYABLE.has(kind);
+
+// --- Backoff ---
+
+export interface BackoffOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Give up instead of sleeping past this many ms from the first attempt
+  deadlineMs?: number;
+  random?: () => number;
+}
+
+// "Full jitter": a random delay up to the exponential ceiling, so clients that
+// failed together do not retry together.
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs, random = Math.random }: BackoffOptions): number =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const retryWithBackoff = async <T>(
+  task: () => Promise<T>,
+  options: BackoffOptions,
+  onRetry?: (err: unknown, kind: ProviderErrorKind, delayMs: number) => void
+): Promise<T> => {
+  const startedAt = Date.now();
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      const kind = classifyError(err);
+      const delayMs = backoffDelay(attempt, options);
+      const pastDeadline = options.deadlineMs !== undefined && Date.now() - startedAt + delayMs >= options.deadlineMs;
+      if (attempt >= options.retries || !isRetryable(kind) || pastDeadline) throw err;
+
+      onRetry?.(err, kind, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
+
+// --- Circuit breaker ---
+
+export interface CircuitBreakerOptions {
+  id: string;
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before allowing a trial
+  cooldownMs: number;
+  now?: () => number;
+}
+
+export interface CircuitBreaker {
+  // Throws CircuitOpenError while open; in half-open, lets a single trial through
+  acquire: () => void;
+  recordSuccess: () => void;
+  recordFailure: (err: unknown) => void;
+  // Ends a half-open trial without a verdict, e.g. when the pair was simply unavailable
+  release: () => void;
+  state: () => CircuitState;
+  status: () => ProviderStatus;
+}
+
+export const createCircuitBreaker = ({ id, failureThreshold, cooldownMs, now = Date.now }: CircuitBreakerOptions): CircuitBreaker => {
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+  let lastError: string | undefined;
+
+  const currentState = (): CircuitState => {
+    if (state === 'open' && now() - openedAt >= cooldownMs) {
+      state = 'half-open';
+      trialInFlight = false;
+    }
+    return state;
+  };
+
+  const open = () => {
+    state = 'open';
+    openedAt = now();
+    trialInFlight = false;
+  };
+
+  return {
+    acquire: () => {
+      const current = currentState();
+      if (current === 'open' || (current === 'half-open' && trialInFlight)) {
+        throw new CircuitOpenError(id, openedAt + cooldownMs);
+      }
+      if (current === 'half-open') trialInFlight = true;
+    },
+    recordSuccess: () => {
+      state = 'closed';
+      consecutiveFailures = 0;
+      trialInFlight = false;
+      lastError = undefined;
+    },
+    recordFailure: (err) => {
+      consecutiveFailures += 1;
+      lastError = err instanceof Error ? err.message : String(err);
+      if (currentState() === 'half-open' || consecutiveFailures >= failureThreshold) open();
+    },
+    release: () => {
+      trialInFlight = false;
+    },
+    state: currentState,
+    status: () => {
+      const current = currentState();
+      return {
+        id,
+        state: current,
+        consecutiveFailures,
+        lastError,
+        retryAt: current === 'open' ? new Date(openedAt + cooldownMs).toISOString() : undefined
+      };
+    }
+  };
+};
+
+// --- Provider wrapper ---
+
+export interface ResilienceOptions {
+  breaker: CircuitBreaker;
+  backoff: Omit<BackoffOptions, 'deadlineMs'>;
+}
+
+// Wraps a provider with retries and a circuit breaker. Each attempt keeps the
+// provider's own timeout; the wrapped provider allows twice that overall so
+// fast failures (429s, 5xx) still get retried.
+export const withResilience = (provider: RateProvider, { breaker, backoff }: ResilienceOptions): RateProvider => ({
+  ...provider,
+  timeoutMs: provider.timeoutMs * 2,
+  fetchRate: async (from, to) => {
+    breaker.acquire();
+    try {
+      const result = await retryWithBackoff(
+        () => withTimeout(provider.fetchRate(from, to), provider.timeoutMs, provider.id),
+        { ...backoff, deadlineMs: provider.timeoutMs * 2 },
+        (err, kind, delayMs) => console.warn(`${provider.id} failed (${kind}) for ${from}-${to}; retrying in ${delayMs}ms`, err)
+      );
+      breaker.recordSuccess();
+      return result;
+    } catch (err) {
+      if (NEUTRAL.has(classifyError(err))) {
+        breaker.release();
+      } else {
+        breaker.recordFailure(err);
+      }
+      throw err;
+    }
+  }
+});
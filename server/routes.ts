@@ -0,0 +1,139 @@
+import { CurrencyCode } from '../types';
+import { isCurrencyCode } from '../services/currencyCatalog';
+import { isHistoryInterval } from '../services/rateHistory';
+import { HttpError, Route, sendJson } from './http';
+import { fetchRateHistory, fetchRateSnapshot, fetchRealTimeRate, getServiceStatus, loadServedRates } from './rateService';
+import { CORS_HEADERS, buildPublicRates, publicRatesToCsv, sendCacheable } from './publicRates';
+import { getMarketAnalysis } from './marketAnalysis';
+import { MAX_QUERY_LENGTH, interpretQuery } from './naturalQuery';
+
+const DEFAULT_HISTORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const PUBLIC_RATES_PATTERN = /^\/public\/rates(?:\.json|\.csv)?$/;
+
+// "USD-NGN" -> ['USD', 'NGN']
+export const parsePairParam = (value: string): [CurrencyCode, CurrencyCode] => {
+  const [from, to, ...extra] = value.toUpperCase().split('-');
+  if (extra.length > 0 || !from || !to || !isCurrencyCode(from) || !isCurrencyCode(to)) {
+    throw new HttpError(400, `Unsupported currency pair: ${value}`);
+  }
+  return [from, to];
+};
+
+const parseDateParam = (value: string | null, fallback: Date): Date => {
+  if (value === null) return fallback;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new HttpError(400, `Invalid date: ${value}`);
+  return date;
+};
+
+export const routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: /^\/status$/,
+    handle: ({ res }) => sendJson(res, 200, getServiceStatus(), { 'Cache-Control': 'no-store' })
+  },
+  {
+    method: 'GET',
+    pattern: /^\/rates$/,
+    handle: async ({ res }) => sendJson(res, 200, await fetchRateSnapshot())
+  },
+  {
+    method: 'GET',
+    pattern: /^\/rates\/([^/]+)$/,
+    handle: async ({ res, params }) => {
+      const [from, to] = parsePairParam(params[0]);
+      try {
+        sendJson(res, 200, await fetchRealTimeRate(from, to));
+      } catch (err) {
+        // Every provider and fallback failed; nothing to serve
+        console.error(`No rate available for ${from}-${to}`, err);
+        throw new HttpError(502, `No rate available for ${from}-${to}`);
+      }
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/analysis\/([^/]+)$/,
+    handle: async ({ res, params }) => {
+      const [from, to] = parsePairParam(params[0]);
+      try {
+        sendJson(res, 200, await getMarketAnalysis(from, to), { 'Cache-Control': 'private, max-age=300' });
+      } catch (err) {
+        console.error(`No market analysis available for ${from}-${to}`, err);
+        throw new HttpError(502, `No market analysis available for ${from}-${to}`);
+      }
+    }
+  },
+  {
+    // ?q=how much is 250 quid in naira
+    method: 'GET',
+    pattern: /^\/query$/,
+    handle: async ({ res, url }) => {
+      const query = (url.searchParams.get('q') || '').trim();
+      if (!query) throw new HttpError(400, 'Missing query');
+      if (query.length > MAX_QUERY_LENGTH) throw new HttpError(400, `Query is longer than ${MAX_QUERY_LENGTH} characters`);
+
+      let result;
+      try {
+        result = await interpretQuery(query);
+      } catch (err) {
+        console.error('Query interpretation failed', err);
+        throw new HttpError(502, 'Query could not be interpreted right now');
+      }
+      if (!result) throw new HttpError(422, `Could not read a conversion from: ${query}`);
+      sendJson(res, 200, result);
+    }
+  },
+  {
+    method: 'OPTIONS',
+    pattern: PUBLIC_RATES_PATTERN,
+    handle: ({ res }) => {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+    }
+  },
+  {
+    // ?pairs=USD-NGN,NGN-GBP narrows the list; .csv or ?format=csv for CSV
+    method: 'GET',
+    pattern: PUBLIC_RATES_PATTERN,
+    handle: async ({ req, res, url }) => {
+      try {
+        const pairsParam = url.searchParams.get('pairs');
+        const pairs = pairsParam ? pairsParam.split(',').filter(Boolean).map(parsePairParam) : undefined;
+
+        let stored;
+        try {
+          stored = await loadServedRates();
+        } catch (err) {
+          console.error('Public rates lookup failed', err);
+          throw new HttpError(503, 'Rates are temporarily unavailable');
+        }
+
+        const rates = buildPublicRates(stored, pairs);
+        if (url.pathname.endsWith('.csv') || url.searchParams.get('format') === 'csv') {
+          sendCacheable(req, res, publicRatesToCsv(rates), 'text/csv; charset=utf-8');
+        } else {
+          sendCacheable(req, res, JSON.stringify({ rates }), 'application/json; charset=utf-8');
+        }
+      } catch (err) {
+        // Errors need CORS headers too, or browsers hide them from the calling page
+        if (err instanceof HttpError) throw new HttpError(err.status, err.message, { ...CORS_HEADERS, 'Cache-Control': 'no-store' });
+        throw err;
+      }
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/rates\/([^/]+)\/history$/,
+    handle: async ({ res, url, params }) => {
+      const [from, to] = parsePairParam(params[0]);
+      const end = parseDateParam(url.searchParams.get('to'), new Date());
+      const start = parseDateParam(url.searchParams.get('from'), new Date(end.getTime() - DEFAULT_HISTORY_WINDOW_MS));
+      const interval = url.searchParams.get('interval') || '1h';
+      if (!isHistoryInterval(interval)) throw new HttpError(400, `Unsupported interval: ${interval}`);
+
+      sendJson(res, 200, await fetchRateHistory(from, to, start, end, interval));
+    }
+  }
+];
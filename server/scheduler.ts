@@ -0,0 +1,75 @@
+import { CurrencyCode } from '../types';
+import { isCurrencyCode } from '../services/currencyCatalog';
+
+const MINUTE_MS = 60 * 1000;
+
+// Gap between the first refreshes of consecutive pairs, so a restart does not
+// spend the whole quota budget in one burst.
+const STARTUP_STAGGER_MS = 15 * 1000;
+
+// Refresh cadence per canonical pair. USD-NGN is the most requested and most
+// volatile; quieter pairs refresh less often and the rest only on demand.
+export const DEFAULT_REFRESH_SCHEDULE: Record<string, number> = {
+  'USD-NGN': 5 * MINUTE_MS,
+  'GBP-NGN': 15 * MINUTE_MS,
+  'EUR-NGN': 15 * MINUTE_MS,
+  'CAD-NGN': 30 * MINUTE_MS,
+  'GHS-NGN': 30 * MINUTE_MS,
+  'ZAR-NGN': 30 * MINUTE_MS,
+  'KES-NGN': 30 * MINUTE_MS,
+  'AED-NGN': 30 * MINUTE_MS,
+  'CNY-NGN': 30 * MINUTE_MS
+};
+
+// Parses "USD-NGN=5,GBP-NGN=15" (minutes). Invalid entries are skipped with a warning.
+export const parseRefreshSchedule = (value: string): Record<string, number> => {
+  const schedule: Record<string, number> = {};
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [pair, minutes] = entry.split('=');
+    const [from, to] = (pair || '').toUpperCase().split('-');
+    const cadence = Number(minutes);
+    if (!from || !to || !isCurrencyCode(from) || !isCurrencyCode(to) || !(cadence > 0)) {
+      console.warn(`Ignoring invalid refresh schedule entry "${entry}"`);
+      return;
+    }
+    schedule[`${from}-${to}`] = cadence * MINUTE_MS;
+  });
+  return schedule;
+};
+
+export interface RefreshSchedulerOptions {
+  schedule: Record<string, number>;
+  refresh: (from: CurrencyCode, to: CurrencyCode) => Promise<unknown>;
+}
+
+// Refreshes every scheduled pair on its own cadence. A pair never has two
+// refreshes running at once; a slow refresh delays its next run instead.
+// Returns a function that stops the scheduler.
+export const startRefreshScheduler = ({ schedule, refresh }: RefreshSchedulerOptions): (() => void) => {
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let stopped = false;
+
+  const schedulePair = (pair: string, cadenceMs: number, delayMs: number) => {
+    const timer = setTimeout(async () => {
+      timers.delete(timer);
+      const [from, to] = pair.split('-') as [CurrencyCode, CurrencyCode];
+      try {
+        await refresh(from, to);
+      } catch (err) {
+        console.warn(`Scheduled refresh of ${pair} failed`, err);
+      }
+      if (!stopped) schedulePair(pair, cadenceMs, cadenceMs);
+    }, delayMs);
+    timers.add(timer);
+  };
+
+  Object.entries(schedule)
+    .sort(([, a], [, b]) => a - b)
+    .forEach(([pair, cadenceMs], index) => schedulePair(pair, cadenceMs, index * STARTUP_STAGGER_MS));
+
+  return () => {
+    stopped = true;
+    timers.forEach(clearTimeout);
+    timers.clear();
+  };
+};
@@ -0,0 +1,14 @@
+// Collapses concurrent calls for the same key into one: while a task for a key
+// is running, later callers receive the same promise instead of starting another.
+export const createSingleFlight = <T>() => {
+  const inFlight = new Map<string, Promise<T>>();
+
+  return (key: string, task: () => Promise<T>): Promise<T> => {
+    const existing = inFlight.get(key);
+    if (existing) return existing;
+
+    const promise = task().finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+};
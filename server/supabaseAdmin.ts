@@ -0,0 +1,16 @@
+import { createClient } from '@supabase/supabase-js';
+import { SUPABASE_ANON_KEY, SUPABASE_URL } from '../services/supabase';
+
+// Server-side Supabase client. Writes to currency_rates and the history log
+// need the service-role key; the browser only ever gets read access.
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!serviceKey) {
+  console.warn('SUPABASE_SERVICE_ROLE_KEY is not set; rate writes will be rejected by row level security.');
+}
+
+export const supabaseAdmin = createClient(
+  process.env.SUPABASE_URL || SUPABASE_URL,
+  serviceKey || SUPABASE_ANON_KEY,
+  { auth: { persistSession: false } }
+);
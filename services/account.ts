@@ -0,0 +1,25 @@
+import { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// Optional accounts for saving watchlists and history across devices. Sign-in
+// is by emailed magic link, so there are no passwords to manage.
+
+export const sendSignInLink = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: `${window.location.origin}${window.location.pathname}` }
+  });
+  if (error) throw error;
+};
+
+export const signOutOfAccount = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+};
+
+// Calls back with the current session right away and on every change.
+// Returns the unsubscribe function.
+export const watchSession = (onChange: (session: Session | null, event: string) => void): (() => void) => {
+  const { data } = supabase.auth.onAuthStateChange((event, session) => onChange(session, event));
+  return () => data.subscription.unsubscribe();
+};
@@ -0,0 +1,104 @@
+import {
+  AdminPairStatus,
+  AuditEntry,
+  EmergencyRate,
+  ExchangeData,
+  QuarantineStatus,
+  QuarantinedRate,
+  RateOverride,
+  SanityIssue
+} from '../types';
+import { API_BASE_URL } from './api';
+import { supabase } from './supabase';
+
+// Client for the rate server's /admin routes. Requests carry the signed-in
+// Supabase user's access token, or an ADMIN_TOKEN entered for this tab only.
+
+const ADMIN_TOKEN_KEY = 'nairasense:admin-token';
+
+export class AdminApiError extends Error {
+  constructor(public status: number, message: string, public issues?: SanityIssue[]) {
+    super(message);
+    this.name = 'AdminApiError';
+  }
+}
+
+export const setAdminToken = (token: string | null) => {
+  if (token) sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  else sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+};
+
+const getAccessToken = async (): Promise<string | undefined> => {
+  const adminToken = sessionStorage.getItem(ADMIN_TOKEN_KEY);
+  if (adminToken) return adminToken;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token;
+};
+
+const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+  const token = await getAccessToken();
+  const response = await fetch(`${API_BASE_URL}/admin${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new AdminApiError(response.status, payload?.error || `Rate server responded with ${response.status}`, payload?.issues);
+  }
+  return payload;
+};
+
+export const signInWithPassword = async (email: string, password: string): Promise<void> => {
+  setAdminToken(null);
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw new AdminApiError(401, error.message);
+};
+
+export const signOut = async (): Promise<void> => {
+  setAdminToken(null);
+  await supabase.auth.signOut();
+};
+
+// Resolves to the actor name when the current credentials belong to an admin
+export const fetchAdminSession = (): Promise<{ actor: string }> => request('GET', '/session');
+
+export const fetchPairStatuses = (): Promise<AdminPairStatus[]> => request('GET', '/pairs');
+
+export const forceRefresh = (pair: string): Promise<ExchangeData> =>
+  request('POST', `/pairs/${encodeURIComponent(pair)}/refresh`);
+
+export const fetchOverrides = (): Promise<RateOverride[]> => request('GET', '/overrides');
+
+export interface OverrideRequest {
+  pair: string;
+  officialRate?: number;
+  parallelRate?: number;
+  note: string;
+  expiresAt: string; // ISO timestamp
+}
+
+export const createOverride = (override: OverrideRequest): Promise<RateOverride> =>
+  request('POST', '/overrides', override);
+
+export const clearOverride = (id: number): Promise<RateOverride> => request('DELETE', `/overrides/${id}`);
+
+export const fetchEmergencyRates = (): Promise<EmergencyRate[]> => request('GET', '/emergency-rates');
+
+export const setEmergencyRate = (pair: string, rate: number, note?: string): Promise<EmergencyRate[]> =>
+  request('PUT', `/emergency-rates/${encodeURIComponent(pair)}`, { rate, note });
+
+export const resetEmergencyRate = (pair: string): Promise<EmergencyRate[]> =>
+  request('DELETE', `/emergency-rates/${encodeURIComponent(pair)}`);
+
+export const fetchQuarantine = (status: QuarantineStatus = 'pending'): Promise<QuarantinedRate[]> =>
+  request('GET', `/quarantine?status=${status}`);
+
+export const reviewQuarantinedRate = (id: number, decision: 'approve' | 'reject', note?: string): Promise<QuarantinedRate> =>
+  request('POST', `/quarantine/${id}/${decision}`, { note });
+
+export const fetchAuditLog = (pair?: string): Promise<AuditEntry[]> =>
+  request('GET', `/audit${pair ? `?pair=${encodeURIComponent(pair)}` : ''}`);
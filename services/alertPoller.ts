@@ -0,0 +1,71 @@
+import { CurrencyCode, ExchangeData, Market } from '../types';
+import { fetchRealTimeRate } from './api';
+import { getMarketRate } from './markets';
+import { AlertTrigger, RateObservation, evaluateAlerts, observationKey } from './alerts';
+import { AlertStore } from './alertStore';
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface AlertPollerOptions {
+  store: AlertStore;
+  onTrigger: (triggers: AlertTrigger[]) => void;
+  intervalMs?: number;
+  fetchRate?: (from: CurrencyCode, to: CurrencyCode) => Promise<ExchangeData>;
+}
+
+export const showAlertNotification = (trigger: AlertTrigger) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification('NairaSense rate alert', { body: trigger.message, tag: trigger.alert.id });
+};
+
+// Periodically fetches the rate for every pair with an enabled alert, evaluates
+// the alerts and persists any that changed, including their last observed rate,
+// so crossings are judged the same across reloads and tabs. Returns a function that stops polling.
+export const startAlertPoller = ({
+  store,
+  onTrigger,
+  intervalMs = DEFAULT_POLL_INTERVAL_MS,
+  fetchRate = fetchRealTimeRate
+}: AlertPollerOptions): (() => void) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const alerts = (await store.list()).filter(a => a.enabled);
+      const pairs = [...new Set(alerts.map(a => `${a.from}-${a.to}`))];
+      const observations: Record<string, RateObservation> = {};
+
+      for (const pair of pairs) {
+        const [from, to] = pair.split('-') as [CurrencyCode, CurrencyCode];
+        try {
+          const data = await fetchRate(from, to);
+          (['official', 'parallel'] as Market[]).forEach(market => {
+            const current = getMarketRate(data, market);
+            if (current === undefined) return;
+            observations[observationKey(from, to, market)] = { current };
+          });
+        } catch (err) {
+          console.warn(`Alert poller could not fetch ${pair}`, err);
+        }
+      }
+
+      const { alerts: updated, triggers } = evaluateAlerts(alerts, observations);
+      await Promise.all(updated.filter((a, i) => a !== alerts[i]).map(a => store.save(a)));
+
+      if (triggers.length > 0) {
+        triggers.forEach(showAlertNotification);
+        onTrigger(triggers);
+      }
+    } catch (err) {
+      console.warn('Alert poll failed', err);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,113 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { CurrencyCode, Market } from '../types';
+import { AlertCondition, RateAlert } from './alerts';
+
+export interface AlertStore {
+  list: () => Promise<RateAlert[]>;
+  save: (alert: RateAlert) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+const LOCAL_KEY = 'nairasense:rate-alerts';
+
+export const createLocalAlertStore = (storage: Storage = localStorage): AlertStore => {
+  const read = (): RateAlert[] => {
+    try {
+      return JSON.parse(storage.getItem(LOCAL_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  };
+  const write = (alerts: RateAlert[]) => storage.setItem(LOCAL_KEY, JSON.stringify(alerts));
+
+  return {
+    list: async () => read(),
+    save: async (alert) => {
+      const alerts = read();
+      const index = alerts.findIndex(a => a.id === alert.id);
+      if (index >= 0) alerts[index] = alert; else alerts.push(alert);
+      write(alerts);
+    },
+    remove: async (id) => write(read().filter(a => a.id !== id))
+  };
+};
+
+const ALERTS_TABLE = 'rate_alerts';
+
+interface AlertRow {
+  id: string;
+  from_currency: CurrencyCode;
+  to_currency: CurrencyCode;
+  market: Market;
+  condition: AlertCondition;
+  threshold: number;
+  baseline_rate: number | null;
+  created_at: string;
+  last_triggered_at: string | null;
+  last_observed_rate: number | null;
+  enabled: boolean;
+}
+
+// Alerts owned by a signed-in user. Row level security checks owner_id against
+// the caller's token; the filters here only keep queries narrow.
+export const createSupabaseAlertStore = (client: SupabaseClient, ownerId: string): AlertStore => ({
+  list: async () => {
+    const { data, error } = await client.from(ALERTS_TABLE).select('*').eq('owner_id', ownerId);
+    if (error) throw error;
+    return (data || []).map((row: AlertRow) => ({
+      id: row.id,
+      from: row.from_currency,
+      to: row.to_currency,
+      market: row.market,
+      condition: row.condition,
+      threshold: Number(row.threshold),
+      baselineRate: row.baseline_rate != null ? Number(row.baseline_rate) : undefined,
+      createdAt: row.created_at,
+      lastTriggeredAt: row.last_triggered_at || undefined,
+      lastObservedRate: row.last_observed_rate != null ? Number(row.last_observed_rate) : undefined,
+      enabled: row.enabled
+    }));
+  },
+  save: async (alert) => {
+    const { error } = await client.from(ALERTS_TABLE).upsert({
+      id: alert.id,
+      owner_id: ownerId,
+      from_currency: alert.from,
+      to_currency: alert.to,
+      market: alert.market,
+      condition: alert.condition,
+      threshold: alert.threshold,
+      baseline_rate: alert.baselineRate ?? null,
+      created_at: alert.createdAt,
+      last_triggered_at: alert.lastTriggeredAt ?? null,
+      last_observed_rate: alert.lastObservedRate ?? null,
+      enabled: alert.enabled
+    });
+    if (error) throw error;
+  },
+  remove: async (id) => {
+    const { error } = await client.from(ALERTS_TABLE).delete().eq('id', id).eq('owner_id', ownerId);
+    if (error) throw error;
+  }
+});
+
+// Signed-in users keep alerts in their account; signed-out visitors in the
+// browser, since the database only accepts rows owned by a real user.
+export const createAccountAlertStore = (client: SupabaseClient, fallback: AlertStore): AlertStore => {
+  const current = async (): Promise<AlertStore> => {
+    const { data } = await client.auth.getSession();
+    const userId = data.session?.user.id;
+    return userId ? createSupabaseAlertStore(client, userId) : fallback;
+  };
+
+  return {
+    list: async () => (await current()).list(),
+    save: async (alert) => (await current()).save(alert),
+    remove: async (id) => (await current()).remove(id)
+  };
+};
+
+export const alertStore: AlertStore = process.env.ALERT_STORE === 'supabase'
+  ? createAccountAlertStore(supabase, createLocalAlertStore())
+  : createLocalAlertStore();
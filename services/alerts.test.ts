@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AlertTrigger, RateAlert, evaluateAlerts, observationKey, shouldTrigger } from './alerts';
+
+const alert = (overrides: Partial<RateAlert>): RateAlert => ({
+  id: 'alert-1',
+  from: 'USD',
+  to: 'NGN',
+  market: 'parallel',
+  condition: 'above',
+  threshold: 1600,
+  createdAt: '2026-03-01T00:00:00.000Z',
+  enabled: true,
+  ...overrides
+});
+
+// Feeds a synthetic stream of USD-NGN parallel rates through evaluateAlerts the
+// way the poller does, carrying the updated alerts forward.
+const runStream = (initial: RateAlert[], rates: number[]) => {
+  let alerts = initial;
+  const fired: { tick: number; trigger: AlertTrigger }[] = [];
+
+  rates.forEach((current, tick) => {
+    const key = observationKey('USD', 'NGN', 'parallel');
+    const result = evaluateAlerts(alerts, { [key]: { current } }, new Date(Date.UTC(2026, 2, 1, 0, tick * 5)));
+    alerts = result.alerts;
+    result.triggers.forEach(trigger => fired.push({ tick, trigger }));
+  });
+
+  return { alerts, fired };
+};
+
+describe('level alerts', () => {
+  it('fires once per upward crossing, not while the rate stays above', () => {
+    const { fired } = runStream([alert({})], [1580, 1590, 1605, 1610, 1620, 1595, 1601, 1602]);
+    expect(fired.map(f => f.tick)).toEqual([2, 6]);
+    expect(fired[0].trigger.rate).toBe(1605);
+  });
+
+  it('fires on the first observation when the rate is already past the level', () => {
+    const { fired } = runStream([alert({ condition: 'below', threshold: 1500 })], [1490, 1480, 1510, 1500]);
+    expect(fired.map(f => f.tick)).toEqual([0, 3]);
+  });
+
+  it('treats touching the level as crossing it', () => {
+    expect(shouldTrigger(alert({ lastObservedRate: 1599 }), { current: 1600 })).toBe(true);
+    expect(shouldTrigger(alert({ condition: 'below', lastObservedRate: 1601 }), { current: 1600 })).toBe(true);
+  });
+
+  it('does not fire again after a reload while the rate stays past the level', () => {
+    const first = runStream([alert({})], [1590, 1605]);
+    // A new page load or tab starts from the stored alerts
+    const reloaded = runStream(first.alerts, [1610, 1620]);
+    expect(first.fired.map(f => f.tick)).toEqual([1]);
+    expect(reloaded.fired).toEqual([]);
+    expect(reloaded.alerts[0].lastObservedRate).toBe(1620);
+  });
+
+  it('records when it last fired', () => {
+    const { alerts } = runStream([alert({})], [1590, 1605]);
+    expect(alerts[0].lastTriggeredAt).toBe('2026-03-01T00:05:00.000Z');
+  });
+});
+
+describe('percent-change alerts', () => {
+  it('adopts the first rate as baseline and re-bases after firing', () => {
+    const { alerts, fired } = runStream(
+      [alert({ condition: 'percent-change', threshold: 2 })],
+      [1500, 1520, 1531, 1550, 1562, 1500]
+    );
+
+    // 1531 is +2.07% on 1500; then 1562 is +2.02% on 1531; then 1500 is -3.97% on 1562
+    expect(fired.map(f => f.tick)).toEqual([2, 4, 5]);
+    expect(fired[0].trigger.message).toMatch(/^USD\/NGN parallel moved \+2\.07% to /);
+    expect(alerts[0].baselineRate).toBe(1500);
+  });
+
+  it('never fires on the observation that sets its baseline', () => {
+    const { fired, alerts } = runStream([alert({ condition: 'percent-change', threshold: 0.1 })], [1500]);
+    expect(fired).toEqual([]);
+    expect(alerts[0].baselineRate).toBe(1500);
+  });
+});
+
+describe('evaluateAlerts', () => {
+  it('leaves disabled alerts, other pairs and unusable rates alone', () => {
+    const alerts = [
+      alert({ id: 'disabled', enabled: false }),
+      alert({ id: 'official', market: 'official' }),
+      alert({ id: 'gbp', from: 'GBP' })
+    ];
+    const result = evaluateAlerts(alerts, { [observationKey('USD', 'NGN', 'parallel')]: { current: 1700 } });
+
+    expect(result.triggers).toEqual([]);
+    expect(result.alerts).toEqual(alerts);
+    result.alerts.forEach((a, i) => expect(a).toBe(alerts[i]));
+    expect(shouldTrigger(alert({}), { current: NaN })).toBe(false);
+    expect(shouldTrigger(alert({}), { current: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { CurrencyCode, Market } from '../types';
+import { formatRate } from './money';
+
+export type AlertCondition = 'above' | 'below' | 'percent-change';
+
+export interface RateAlert {
+  id: string;
+  from: CurrencyCode;
+  to: CurrencyCode;
+  market: Market;
+  condition: AlertCondition;
+  // Rate level for above/below; percentage (e.g. 2 for 2%) for percent-change
+  threshold: number;
+  // Rate that percent-change is measured against; reset each time the alert fires
+  baselineRate?: number;
+  createdAt: string; // ISO timestamp
+  lastTriggeredAt?: string;
+  // Rate seen by the previous evaluation, stored with the alert so a reload or
+  // a second tab doesn't take a rate already past the level for a new crossing
+  lastObservedRate?: number;
+  enabled: boolean;
+}
+
+export interface AlertTrigger {
+  alert: RateAlert;
+  rate: number;
+  message: string;
+}
+
+export interface AlertEvaluation {
+  alerts: RateAlert[];
+  triggers: AlertTrigger[];
+}
+
+// Latest observed rate for one pair and market; each alert remembers the one before.
+export interface RateObservation {
+  current: number;
+}
+
+export const observationKey = (from: CurrencyCode, to: CurrencyCode, market: Market) => `${from}-${to}:${market}`;
+
+export const describeAlert = (alert: RateAlert): string => {
+  const pair = `${alert.from}/${alert.to} ${alert.market}`;
+  switch (alert.condition) {
+    case 'above': return `${pair} rises above ${formatRate(alert.threshold, alert.to)}`;
+    case 'below': return `${pair} falls below ${formatRate(alert.threshold, alert.to)}`;
+    case 'percent-change': return `${pair} moves ${alert.threshold}% or more`;
+  }
+};
+
+// Decides whether a single alert fires for an observation. Level alerts fire
+// when the rate crosses the threshold since the alert's last observed rate (or
+// is already past it on the alert's first observation), so a rate that stays
+// above a level does not fire repeatedly.
+export const shouldTrigger = (alert: RateAlert, observation: RateObservation): boolean => {
+  const { current } = observation;
+  const previous = alert.lastObservedRate;
+  if (!alert.enabled || !(current > 0)) return false;
+
+  switch (alert.condition) {
+    case 'above':
+      return current >= alert.threshold && (previous === undefined || previous < alert.threshold);
+    case 'below':
+      return current <= alert.threshold && (previous === undefined || previous > alert.threshold);
+    case 'percent-change': {
+      if (!alert.baselineRate) return false;
+      const change = Math.abs(current - alert.baselineRate) / alert.baselineRate * 100;
+      return change >= alert.threshold;
+    }
+  }
+};
+
+const triggerMessage = (alert: RateAlert, rate: number): string => {
+  if (alert.condition === 'percent-change' && alert.baselineRate) {
+    const change = (rate - alert.baselineRate) / alert.baselineRate * 100;
+    return `${alert.from}/${alert.to} ${alert.market} moved ${change > 0 ? '+' : ''}${change.toFixed(2)}% to ${formatRate(rate, alert.to)}`;
+  }
+  return `${alert.from}/${alert.to} ${alert.market} is now ${formatRate(rate, alert.to)} (${alert.condition} ${formatRate(alert.threshold, alert.to)})`;
+};
+
+// Evaluates every alert against the observations (keyed by observationKey) and
+// returns the updated alerts alongside the ones that fired. Every observed
+// alert records the rate as lastObservedRate; percent-change alerts without a
+// baseline adopt it as their baseline.
+export const evaluateAlerts = (
+  alerts: RateAlert[],
+  observations: Record<string, RateObservation>,
+  now: Date = new Date()
+): AlertEvaluation => {
+  const triggers: AlertTrigger[] = [];
+
+  const updated = alerts.map(alert => {
+    const observation = observations[observationKey(alert.from, alert.to, alert.market)];
+    if (!observation || !alert.enabled || !(observation.current > 0)) return alert;
+    const observed = alert.lastObservedRate === observation.current ? alert : { ...alert, lastObservedRate: observation.current };
+
+    if (alert.condition === 'percent-change' && !alert.baselineRate) {
+      return { ...observed, baselineRate: observation.current };
+    }
+
+    if (!shouldTrigger(alert, observation)) return observed;
+
+    triggers.push({ alert, rate: observation.current, message: triggerMessage(alert, observation.current) });
+    return {
+      ...observed,
+      lastTriggeredAt: now.toISOString(),
+      baselineRate: alert.condition === 'percent-change' ? observation.current : alert.baselineRate
+    };
+  });
+
+  return { alerts: updated, triggers };
+};
@@ -0,0 +1,50 @@
+import { CurrencyCode, ExchangeData, MarketAnalysis, PublicRate, RateSnapshot, ServiceStatus } from '../types';
+import { HistoryInterval, RateCandle } from './rateHistory';
+import { ConversionQuery } from './queryParser';
+
+// Thin client for the rate server (see server/). Provider calls, API keys and
+// currency_rates writes all live there; the browser only reads.
+export const API_BASE_URL = process.env.RATES_API_URL || '/api';
+
+const getJson = async <T>(path: string): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Rate server responded with ${response.status}`);
+  }
+  return response.json();
+};
+
+export const fetchRealTimeRate = (from: CurrencyCode, to: CurrencyCode): Promise<ExchangeData> =>
+  getJson(`/rates/${from}-${to}`);
+
+// All stored rates at one moment, for converting many amounts consistently
+export const fetchRateSnapshot = (): Promise<RateSnapshot> => getJson('/rates');
+
+export const fetchRateHistory = (
+  from: CurrencyCode,
+  to: CurrencyCode,
+  start: Date,
+  end: Date,
+  interval: HistoryInterval
+): Promise<RateCandle[]> => {
+  const query = new URLSearchParams({ from: start.toISOString(), to: end.toISOString(), interval });
+  return getJson(`/rates/${from}-${to}/history?${query}`);
+};
+
+// Drivers, recent movement and outlook for a pair; cached on the server for hours
+export const fetchMarketAnalysis = (from: CurrencyCode, to: CurrencyCode): Promise<MarketAnalysis> =>
+  getJson(`/analysis/${from}-${to}`);
+
+// Server-side reading of a free-text query, for when parseConversionQuery cannot read it
+export const interpretQuery = (query: string): Promise<ConversionQuery> =>
+  getJson(`/query?q=${encodeURIComponent(query)}`);
+
+// Provider health from the rate server's circuit breakers
+export const fetchServiceStatus = (): Promise<ServiceStatus> => getJson('/status');
+
+// Stored rate only, from the cacheable public endpoint; never triggers a provider fetch
+export const fetchPublicRate = async (from: CurrencyCode, to: CurrencyCode): Promise<PublicRate | undefined> => {
+  const { rates } = await getJson<{ rates: PublicRate[] }>(`/public/rates?pairs=${from}-${to}`);
+  return rates[0];
+};
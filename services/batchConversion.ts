@@ -0,0 +1,137 @@
+import { CURRENCY_CODES, CurrencyCode, ExchangeData, Market, RateOrigin, RateSnapshot } from '../types';
+import { isCurrencyCode } from './currencyCatalog';
+import { getMarketRate } from './markets';
+import { RateGraph, resolveRate } from './rateGraph';
+import { Decimal, convertAmount, parseDecimal, toDecimalString } from './money';
+
+// Converts many amounts against a single RateSnapshot, so every row of a
+// table uses the same rates even if the server refreshes mid-way.
+
+export interface BatchRow {
+  line: number; // 1-based line in the pasted or uploaded CSV
+  amount: Decimal;
+  from: CurrencyCode;
+  to: CurrencyCode;
+}
+
+export interface BatchParseError {
+  line: number;
+  message: string;
+}
+
+export interface ConversionResult {
+  amount: Decimal;
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate?: number;
+  converted?: Decimal;
+  origin?: RateOrigin;
+  error?: string;
+}
+
+// Splits one CSV line, honouring double-quoted cells ("2,500,000").
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// Rows of "amount,from,to". A header row and blank lines are skipped; other
+// unusable rows are reported rather than silently dropped.
+export const parseBatchCsv = (text: string): { rows: BatchRow[]; errors: BatchParseError[] } => {
+  const rows: BatchRow[] = [];
+  const errors: BatchParseError[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    if (!raw.trim()) return;
+
+    const [amountCell = '', fromCell = '', toCell = ''] = splitCsvLine(raw);
+    const amount = parseDecimal(amountCell);
+    const from = fromCell.toUpperCase();
+    const to = toCell.toUpperCase();
+
+    if (line === 1 && !amount) return; // header
+
+    if (!amount) {
+      errors.push({ line, message: `Invalid amount "${amountCell}"` });
+    } else if (!isCurrencyCode(from)) {
+      errors.push({ line, message: `Unsupported currency "${fromCell}"` });
+    } else if (!isCurrencyCode(to)) {
+      errors.push({ line, message: `Unsupported currency "${toCell}"` });
+    } else {
+      rows.push({ line, amount, from, to });
+    }
+  });
+
+  return { rows, errors };
+};
+
+const snapshotGraph = (snapshot: RateSnapshot): RateGraph =>
+  Object.fromEntries(
+    Object.entries(snapshot.rates).map(([pair, data]) => [pair, { data, fetchedAt: new Date(data.fetchedAt).getTime() }])
+  );
+
+// Every stored rate is usable, however old: consistency matters more than
+// freshness here, and each result carries its origin.
+const createResolver = (snapshot: RateSnapshot, market: Market) => {
+  const graph = snapshotGraph(snapshot);
+  const cache = new Map<string, ExchangeData | undefined>();
+
+  return (amount: Decimal, from: CurrencyCode, to: CurrencyCode): ConversionResult => {
+    if (from === to) return { amount, from, to, rate: 1, converted: convertAmount(amount, 1, to) };
+
+    const key = `${from}-${to}`;
+    if (!cache.has(key)) cache.set(key, resolveRate(graph, from, to, { maxAgeMs: Infinity }));
+    const data = cache.get(key);
+    if (!data) return { amount, from, to, error: 'No rate available' };
+
+    // Pairs without the chosen market fall back to their headline rate
+    const rate = getMarketRate(data, market) ?? data.rate;
+    return { amount, from, to, rate, converted: convertAmount(amount, rate, to), origin: data.origin };
+  };
+};
+
+// One amount into every other supported currency
+export const convertToAll = (amount: Decimal, from: CurrencyCode, snapshot: RateSnapshot, market: Market): ConversionResult[] => {
+  const resolve = createResolver(snapshot, market);
+  return CURRENCY_CODES.filter(code => code !== from).map(to => resolve(amount, from, to));
+};
+
+export const convertBatch = (rows: BatchRow[], snapshot: RateSnapshot, market: Market): ConversionResult[] => {
+  const resolve = createResolver(snapshot, market);
+  return rows.map(row => resolve(row.amount, row.from, row.to));
+};
+
+const escapeCsvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]): string =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\n');
+
+export const resultsToCsv = (results: ConversionResult[], snapshot: RateSnapshot, market: Market): string =>
+  toCsv([
+    ['amount', 'from', 'to', 'rate', 'converted', 'market', 'origin', 'rates_as_of', 'error'],
+    ...results.map(r => [
+      toDecimalString(r.amount), r.from, r.to, r.rate,
+      r.converted && toDecimalString(r.converted), market, r.origin, snapshot.takenAt, r.error
+    ])
+  ]);
@@ -0,0 +1,66 @@
+import { RateConsensus } from '../types';
+
+export interface RateQuote {
+  providerId: string;
+  rate: number;
+}
+
+export interface ConsensusResult extends RateConsensus {
+  confidence: number;
+  inliers: RateQuote[];
+  outliers: RateQuote[];
+}
+
+// Scales MAD so it estimates the standard deviation of normally distributed quotes.
+const MAD_SCALE = 1.4826;
+// Quotes further than this many scaled MADs from the median are rejected.
+const DEFAULT_OUTLIER_CUTOFF = 3;
+// Floor for the scaled MAD, relative to the median, so that a few identical
+// quotes don't make every slightly different one an outlier.
+const MIN_RELATIVE_DEVIATION = 0.005;
+// Relative spread at which confidence drops to zero.
+const MAX_TOLERATED_SPREAD = 0.1;
+
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// More agreeing quotes raise confidence; a wide spread between them lowers it.
+const scoreConfidence = (quoteCount: number, spread: number): number => {
+  const countFactor = 1 - 0.5 / quoteCount;
+  const spreadFactor = Math.max(0, 1 - spread / MAX_TOLERATED_SPREAD);
+  return Math.round(countFactor * spreadFactor * 100) / 100;
+};
+
+// Combines several quotes for one pair into a consensus rate. Outliers are
+// rejected with a median/MAD test; the consensus is the median of the rest and
+// `spread` is their (max - min) range relative to it.
+export const buildConsensus = (quotes: RateQuote[], outlierCutoff = DEFAULT_OUTLIER_CUTOFF): ConsensusResult => {
+  const valid = quotes.filter(q => Number.isFinite(q.rate) && q.rate > 0);
+  if (valid.length === 0) {
+    throw new Error('Cannot build consensus without any valid quotes');
+  }
+
+  const center = median(valid.map(q => q.rate));
+  const mad = median(valid.map(q => Math.abs(q.rate - center)));
+  const deviationScale = Math.max(mad * MAD_SCALE, center * MIN_RELATIVE_DEVIATION);
+
+  const inliers = valid.filter(q => Math.abs(q.rate - center) / deviationScale <= outlierCutoff);
+  const outliers = valid.filter(q => !inliers.includes(q));
+
+  const inlierRates = inliers.map(q => q.rate);
+  const rate = median(inlierRates);
+  const spread = (Math.max(...inlierRates) - Math.min(...inlierRates)) / rate;
+
+  return {
+    rate,
+    spread,
+    quoteCount: inliers.length,
+    rejectedCount: outliers.length,
+    confidence: scoreConfidence(inliers.length, spread),
+    inliers,
+    outliers
+  };
+};
@@ -0,0 +1,60 @@
+import { ConversionRecord, ExchangeData, SUPPORTED_CURRENCIES } from '../types';
+import { ConverterUrlState } from './urlState';
+import { getMarketRate, isMarketAvailable } from './markets';
+import { convertAmount, parseDecimal, toDecimalString } from './money';
+
+// Conversions are recorded once the converter has settled on them, at the
+// rate shown at that moment, so the history answers "what did I get then?".
+
+export const MAX_HISTORY_ENTRIES = 500;
+
+// Same fallback as the converter: the other market when the chosen one wasn't quoted
+export const buildConversionRecord = (data: ExchangeData, state: ConverterUrlState, now: Date = new Date()): ConversionRecord | null => {
+  const value = parseDecimal(state.amount);
+  if (!value || value.units <= 0n || state.from === state.to) return null;
+
+  const market = isMarketAvailable(data, state.market) ? state.market : state.market === 'parallel' ? 'official' : 'parallel';
+  const rate = getMarketRate(data, market) || data.rate;
+  if (!(rate > 0)) return null;
+
+  return {
+    id: crypto.randomUUID(),
+    amount: toDecimalString(value),
+    from: state.from,
+    to: state.to,
+    market,
+    rate,
+    result: toDecimalString(convertAmount(value, rate, state.to)),
+    rateOrigin: data.origin,
+    convertedAt: now.toISOString(),
+  };
+};
+
+// Re-rendering or re-fetching the same conversion shouldn't add another entry
+export const isSameConversion = (a: ConversionRecord, b: ConversionRecord): boolean =>
+  a.from === b.from && a.to === b.to && a.amount === b.amount && a.market === b.market && a.rate === b.rate;
+
+const searchableText = (record: ConversionRecord): string =>
+  [
+    record.from,
+    record.to,
+    SUPPORTED_CURRENCIES[record.from].name,
+    SUPPORTED_CURRENCIES[record.to].name,
+    record.market,
+    record.amount,
+    record.result,
+    record.convertedAt.slice(0, 10),
+    new Date(record.convertedAt).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' }),
+  ].join(' ').toLowerCase();
+
+// Every word of the query must appear: "gbp parallel", "500000", "march 2026".
+// Digits are compared without separators, so "500,000" finds 500000.
+export const matchesHistoryQuery = (record: ConversionRecord, query: string): boolean => {
+  const text = searchableText(record);
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => (/^[\d,.]+$/.test(word) ? word.replace(/,/g, '') : word))
+    .filter(Boolean)
+    .every(word => text.includes(word));
+};
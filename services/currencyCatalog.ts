@@ -0,0 +1,81 @@
+import { CURRENCY_CODES, CurrencyCode, CurrencyInfo, SUPPORTED_CURRENCIES } from '../types';
+
+export interface CurrencyEntry extends CurrencyInfo {
+  code: CurrencyCode;
+}
+
+export interface CurrencyPair {
+  from: CurrencyCode;
+  to: CurrencyCode;
+}
+
+export const CURRENCY_LIST: CurrencyEntry[] = CURRENCY_CODES.map(code => ({ code, ...SUPPORTED_CURRENCIES[code] }));
+
+export const isCurrencyCode = (value: string): value is CurrencyCode =>
+  (CURRENCY_CODES as readonly string[]).includes(value);
+
+// Ranks matches: exact code, code prefix, name word prefix, then any substring
+// of name, symbol or region. An empty query returns the full list.
+export const searchCurrencies = (query: string): CurrencyEntry[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return CURRENCY_LIST;
+
+  const score = (c: CurrencyEntry): number => {
+    const code = c.code.toLowerCase();
+    const name = c.name.toLowerCase();
+    if (code === q) return 0;
+    if (code.startsWith(q)) return 1;
+    if (name.split(/\s+/).some(word => word.startsWith(q))) return 2;
+    if (name.includes(q) || c.symbol.toLowerCase() === q || c.region.toLowerCase().includes(q)) return 3;
+    return -1;
+  };
+
+  return CURRENCY_LIST
+    .map(c => ({ c, s: score(c) }))
+    .filter(({ s }) => s >= 0)
+    .sort((a, b) => a.s - b.s)
+    .map(({ c }) => c);
+};
+
+// --- Favourites and recently used pairs (persisted in localStorage) ---
+
+const FAVOURITES_KEY = 'nairasense:favourite-currencies';
+const RECENT_PAIRS_KEY = 'nairasense:recent-pairs';
+const MAX_RECENT_PAIRS = 5;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not persist ${key}`, err);
+  }
+};
+
+export const loadFavouriteCurrencies = (): CurrencyCode[] =>
+  readJson<string[]>(FAVOURITES_KEY, []).filter(isCurrencyCode);
+
+export const toggleFavouriteCurrency = (code: CurrencyCode): CurrencyCode[] => {
+  const current = loadFavouriteCurrencies();
+  const next = current.includes(code) ? current.filter(c => c !== code) : [...current, code];
+  writeJson(FAVOURITES_KEY, next);
+  return next;
+};
+
+export const loadRecentPairs = (): CurrencyPair[] =>
+  readJson<CurrencyPair[]>(RECENT_PAIRS_KEY, [])
+    .filter(p => isCurrencyCode(p?.from) && isCurrencyCode(p?.to));
+
+export const recordRecentPair = (from: CurrencyCode, to: CurrencyCode): CurrencyPair[] => {
+  const next = [{ from, to }, ...loadRecentPairs().filter(p => p.from !== from || p.to !== to)].slice(0, MAX_RECENT_PAIRS);
+  writeJson(RECENT_PAIRS_KEY, next);
+  return next;
+};
@@ -0,0 +1,112 @@
+import { AnalysisPoint, MarketAnalysis, MovementPeriod, RateMovement, Source } from '../types';
+import { RateCandle } from './rateHistory';
+import { extractJsonPayload } from './rateSchema';
+import { GroundingSupport, SourceRegistry, applySourceTrust } from './sourceTrust';
+import { invertRate } from './money';
+
+// Pure parts of the market analysis pipeline: movement from stored history,
+// parsing the model's structured answer and matching its points to citations.
+// The pipeline itself (Gemini call, caching) lives in server/marketAnalysis.ts.
+
+export const MOVEMENT_PERIODS: Record<MovementPeriod, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+export const MAX_DRIVERS = 5;
+export const MAX_OUTLOOK_POINTS = 3;
+
+export class AnalysisResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisResponseError';
+  }
+}
+
+// Change from the candle covering each period's start to the latest close.
+// Periods reaching back before the first stored candle are left out.
+export const computeMovement = (candles: RateCandle[], now: number = Date.now()): RateMovement[] => {
+  if (candles.length < 2) return [];
+  const endRate = candles[candles.length - 1].rate.close;
+
+  return (Object.keys(MOVEMENT_PERIODS) as MovementPeriod[]).flatMap(period => {
+    const start = now - MOVEMENT_PERIODS[period];
+    const startCandle = [...candles].reverse().find(c => new Date(c.bucketStart).getTime() <= start);
+    if (!startCandle || !(startCandle.rate.close > 0)) return [];
+    const startRate = startCandle.rate.close;
+    return [{ period, startRate, endRate, change: endRate / startRate - 1 }];
+  });
+};
+
+export const invertMovement = (movement: RateMovement): RateMovement => {
+  const startRate = invertRate(movement.startRate);
+  const endRate = invertRate(movement.endRate);
+  return { ...movement, startRate, endRate, change: endRate / startRate - 1 };
+};
+
+// The analysis is generated for the canonical pair; drivers and outlook read the same either way
+export const invertAnalysis = (analysis: MarketAnalysis, pair: string): MarketAnalysis => ({
+  ...analysis,
+  pair,
+  movement: analysis.movement.map(invertMovement),
+});
+
+type UncitedPoint = Omit<AnalysisPoint, 'citations'>;
+
+const parsePoints = (value: unknown, field: string, max: number): UncitedPoint[] => {
+  if (!Array.isArray(value)) throw new AnalysisResponseError(`"${field}" is not a list`);
+  return value
+    .filter((item: any) => item && typeof item.heading === 'string' && typeof item.detail === 'string')
+    .map((item: any) => ({ heading: item.heading.trim(), detail: item.detail.trim() }))
+    .filter(item => item.heading && item.detail)
+    .slice(0, max);
+};
+
+// Validates { "drivers": [{ "heading", "detail" }], "outlook": [{ "heading", "detail" }] }
+export const parseAnalysisResponse = (text: string): { drivers: UncitedPoint[]; outlook: UncitedPoint[] } => {
+  let payload: any;
+  try {
+    payload = JSON.parse(extractJsonPayload(text));
+  } catch (err) {
+    throw new AnalysisResponseError(`Analysis JSON could not be read: ${(err as Error).message}`);
+  }
+
+  const drivers = parsePoints(payload?.drivers, 'drivers', MAX_DRIVERS);
+  const outlook = parsePoints(payload?.outlook, 'outlook', MAX_OUTLOOK_POINTS);
+  if (drivers.length === 0) throw new AnalysisResponseError('Analysis has no usable drivers');
+  return { drivers, outlook };
+};
+
+const words = (text: string): string[] => text.toLowerCase().match(/[a-z0-9]{4,}/g) || [];
+
+// Share of a cited segment's words that also appear in the point
+const overlap = (segment: string, point: UncitedPoint): number => {
+  const segmentWords = words(segment);
+  if (segmentWords.length === 0) return 0;
+  const pointWords = new Set(words(`${point.heading} ${point.detail}`));
+  return segmentWords.filter(word => pointWords.has(word)).length / segmentWords.length;
+};
+
+const MIN_OVERLAP = 0.6;
+
+// The model cites sentences, not our points, so each point takes the sources of
+// the grounded segments that mostly restate it. Blocked sources are dropped.
+export const attachCitations = (
+  points: UncitedPoint[],
+  supports: GroundingSupport[],
+  chunkSources: (Source | null)[],
+  registry?: SourceRegistry
+): AnalysisPoint[] =>
+  points.map(point => {
+    const indices = new Set(
+      supports
+        .filter(support => overlap(support.segment?.text || '', point) >= MIN_OVERLAP)
+        .flatMap(support => support.groundingChunkIndices || [])
+    );
+    const cited = [...indices]
+      .map(index => chunkSources[index])
+      .filter((source): source is Source => !!source)
+      .filter((source, i, all) => all.findIndex(s => s.uri === source.uri) === i);
+    return { ...point, citations: applySourceTrust(cited, registry) };
+  });
@@ -0,0 +1,50 @@
+import { ExchangeData, Market, MarketRate, Source } from '../types';
+import { invertRate } from './money';
+
+export const MARKET_LABELS: Record<Market, string> = {
+  official: 'Official',
+  parallel: 'Parallel',
+};
+
+// Pairs without a separate official quote (e.g. EUR -> GBP) only have a
+// headline rate, which is then the official one.
+export const getMarketRate = (data: ExchangeData, market: Market): number | undefined => {
+  if (market === 'parallel') return data.parallelRate?.rate;
+  return data.officialRate?.rate ?? (data.parallelRate ? undefined : data.rate);
+};
+
+export const isMarketAvailable = (data: ExchangeData | null, market: Market): boolean =>
+  !!data && getMarketRate(data, market) !== undefined;
+
+// Parallel premium over the official rate as a fraction (0.05 = 5%). Computed
+// from the larger/smaller ratio so NGN -> X shows the same premium as X -> NGN.
+export const premiumBetween = (official: number, parallel: number): number =>
+  Math.max(official, parallel) / Math.min(official, parallel) - 1;
+
+export const getParallelPremium = (data: ExchangeData): number | undefined => {
+  const official = getMarketRate(data, 'official');
+  const parallel = getMarketRate(data, 'parallel');
+  if (!official || !parallel) return undefined;
+  return premiumBetween(official, parallel);
+};
+
+export const toMarketRate = (rate: number | undefined, updatedAt: string, sources: ExchangeData['sources']): MarketRate | undefined =>
+  rate && rate > 0 ? { rate, updatedAt, sources } : undefined;
+
+const invertSources = (sources: Source[]): Source[] =>
+  sources.map(source => (source.quotedRate ? { ...source, quotedRate: invertRate(source.quotedRate) } : source));
+
+const invertMarketRate = (market?: MarketRate): MarketRate | undefined =>
+  market ? { ...market, rate: invertRate(market.rate), sources: invertSources(market.sources) } : undefined;
+
+export const invertExchangeData = (data: ExchangeData): ExchangeData => {
+  if (data.rate <= 0) return data;
+  return {
+    ...data,
+    rate: invertRate(data.rate),
+    officialRate: invertMarketRate(data.officialRate),
+    parallelRate: invertMarketRate(data.parallelRate),
+    sources: invertSources(data.sources),
+    consensus: data.consensus ? { ...data.consensus, rate: invertRate(data.consensus.rate) } : undefined
+  };
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { fromNumber, parseDecimal, toDecimalString } from './money';
+
+describe('parseDecimal', () => {
+  it.each([
+    ['2,500,000.50', '2500000.50'],
+    ['-0.5', '-0.5'],
+    ['1e-7', '0.0000001'],
+    ['1.5E3', '1500'],
+  ])('reads %s', (text, expected) => {
+    expect(toDecimalString(parseDecimal(text)!)).toBe(expected);
+  });
+
+  it.each(['', '.', 'abc', '1e', '1.2.3'])('rejects %j', text => {
+    expect(parseDecimal(text)).toBeNull();
+  });
+
+  it('rejects exponents and digit counts that would build huge integers', () => {
+    expect(parseDecimal('1e3000000')).toBeNull();
+    expect(parseDecimal('1e-3000000')).toBeNull();
+    expect(parseDecimal('1'.repeat(401))).toBeNull();
+    expect(parseDecimal('1e400')).toBeNull();
+  });
+
+  it('still represents every finite double', () => {
+    expect(toDecimalString(fromNumber(Number.MAX_VALUE))).toHaveLength(309);
+    expect(fromNumber(Number.MIN_VALUE).scale).toBe(324);
+  });
+});
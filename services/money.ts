@@ -0,0 +1,135 @@
+import { CurrencyCode, SUPPORTED_CURRENCIES } from '../types';
+
+// Exact decimal arithmetic for amounts and rates. A Decimal is an integer
+// number of 10^-scale units, so 1234.50 is { units: 123450n, scale: 2 } and
+// no step of a conversion goes through binary floating point.
+
+export interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+export const ZERO: Decimal = { units: 0n, scale: 0 };
+export const ONE: Decimal = { units: 1n, scale: 0 };
+
+// Integer division rounding half to even ("banker's rounding"), so ties do not
+// bias totals upwards across many conversions.
+const divideHalfEven = (numerator: bigint, denominator: bigint): bigint => {
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+  if (twiceRemainder > denominator || (twiceRemainder === denominator && quotient % 2n !== 0n)) {
+    return quotient + (numerator < 0n ? -1n : 1n);
+  }
+  return quotient;
+};
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+// Bounds on what parseDecimal accepts, so input from URLs and text fields
+// cannot make it build huge integers. Both still cover every finite double
+// (up to 309 integer digits, down to 5e-324).
+const MAX_EXPONENT = 400;
+const MAX_DIGITS = 400;
+
+// Accepts "2500000", "2,500,000.50", "-0.5" and exponent notation ("1e-7").
+// Grouping commas, spaces and underscores are ignored. Returns null if
+// unparseable or beyond MAX_EXPONENT / MAX_DIGITS.
+export const parseDecimal = (text: string): Decimal | null => {
+  const match = DECIMAL_PATTERN.exec(text.trim().replace(/[,\s_]/g, ''));
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const [, sign, integer = '', fraction = '', exponent = '0'] = match;
+  const shift = Number(exponent);
+  if (Math.abs(shift) > MAX_EXPONENT || integer.length + fraction.length + Math.max(0, shift) > MAX_DIGITS) return null;
+
+  let units = BigInt(integer + fraction || '0');
+  let scale = fraction.length - shift;
+  if (scale < 0) {
+    units *= pow10(-scale);
+    scale = 0;
+  }
+  return { units: sign === '-' ? -units : units, scale };
+};
+
+// Uses the shortest decimal that round-trips to the same float, so 0.1 becomes exactly 0.1.
+export const fromNumber = (value: number): Decimal => {
+  if (!Number.isFinite(value)) throw new RangeError(`Cannot represent ${value} as a decimal`);
+  return parseDecimal(String(value))!;
+};
+
+export const toDecimalString = ({ units, scale }: Decimal): string => {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+  const text = scale > 0 ? `${digits.slice(0, -scale)}.${digits.slice(-scale)}` : digits;
+  return negative ? `-${text}` : text;
+};
+
+export const toNumber = (value: Decimal): number => Number(toDecimalString(value));
+
+export const roundHalfEven = (value: Decimal, scale: number): Decimal =>
+  value.scale <= scale
+    ? { units: value.units * pow10(scale - value.scale), scale }
+    : { units: divideHalfEven(value.units, pow10(value.scale - scale)), scale };
+
+export const multiply = (a: Decimal, b: Decimal): Decimal => ({ units: a.units * b.units, scale: a.scale + b.scale });
+
+// a / b, rounded half-even to `scale` decimal places
+export const divide = (a: Decimal, b: Decimal, scale: number): Decimal => {
+  if (b.units === 0n) throw new RangeError('Division by zero');
+  return {
+    units: divideHalfEven(a.units * pow10(b.scale + scale), b.units * pow10(a.scale)),
+    scale
+  };
+};
+
+// --- Currency amounts and rates ---
+
+// Significant digits kept when inverting a rate: enough for 1 / 1580 to
+// convert millions of naira without drift in the last kobo.
+const RATE_SIGNIFICANT_DIGITS = 12;
+
+export const minorUnitsOf = (currency: CurrencyCode): number => SUPPORTED_CURRENCIES[currency].minorUnits;
+
+// amount * rate, rounded half-even to the target currency's minor units
+export const convertAmount = (amount: Decimal, rate: number | Decimal, to: CurrencyCode): Decimal =>
+  roundHalfEven(multiply(amount, typeof rate === 'number' ? fromNumber(rate) : rate), minorUnitsOf(to));
+
+// 1 / rate to RATE_SIGNIFICANT_DIGITS significant digits
+export const invertRate = (rate: number): number => {
+  if (!(rate > 0)) throw new RangeError(`Cannot invert rate ${rate}`);
+  const magnitude = Math.floor(-Math.log10(rate));
+  const scale = Math.max(0, RATE_SIGNIFICANT_DIGITS - 1 - magnitude);
+  return toNumber(divide(ONE, fromNumber(rate), scale));
+};
+
+// --- Formatting ---
+
+// The reader's locale decides grouping and separators (en-NG, en-GB, fr-CA...);
+// the currency's home locale is only a fallback outside the browser.
+const displayLocale = (currency: CurrencyCode): string =>
+  (typeof navigator !== 'undefined' && navigator.language) || SUPPORTED_CURRENCIES[currency].locale;
+
+// Formats an amount with exactly the currency's minor units, without a symbol.
+export const formatMoney = (value: Decimal | number, currency: CurrencyCode, locale?: string): string => {
+  const digits = minorUnitsOf(currency);
+  const rounded = roundHalfEven(typeof value === 'number' ? fromNumber(value) : value, digits);
+  return new Intl.NumberFormat(locale ?? displayLocale(currency), {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  }).format(toDecimalString(rounded) as Intl.StringNumericLiteral);
+};
+
+// Rates below 1 (mostly inverted naira rates) keep significant digits instead of decimals.
+export const formatRate = (rate: number, currency: CurrencyCode, locale?: string): string =>
+  new Intl.NumberFormat(locale ?? displayLocale(currency),
+    rate > 0 && rate < 1
+      ? { minimumSignificantDigits: 4, maximumSignificantDigits: 6 }
+      : { minimumFractionDigits: 2, maximumFractionDigits: 4 }
+  ).format(rate);
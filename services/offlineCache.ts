@@ -0,0 +1,62 @@
+import { ExchangeData } from '../types';
+
+// Persistent last-known-good rates per pair, so the app can render instantly
+// (and offline) before revalidating against the network.
+
+const DB_NAME = 'nairasense';
+const DB_VERSION = 1;
+const RATES_STORE = 'rates';
+
+export interface CachedRate {
+  pair: string;
+  data: ExchangeData;
+  savedAt: string; // ISO timestamp
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(RATES_STORE)) {
+          request.result.createObjectStore(RATES_STORE, { keyPath: 'pair' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(RATES_STORE, mode).objectStore(RATES_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+export const loadCachedRate = async (pair: string): Promise<CachedRate | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  try {
+    const cached = await runRequest<CachedRate | undefined>('readonly', store => store.get(pair));
+    // Entries saved before provenance was tracked cannot be aged; treat them as missing
+    return cached?.data.fetchedAt ? cached : null;
+  } catch (err) {
+    console.warn('Offline cache read failed', err);
+    return null;
+  }
+};
+
+export const saveCachedRate = async (pair: string, data: ExchangeData): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await runRequest('readwrite', store => store.put({ pair, data, savedAt: new Date().toISOString() }));
+  } catch (err) {
+    console.warn('Offline cache write failed', err);
+  }
+};
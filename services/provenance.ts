@@ -0,0 +1,35 @@
+import { ExchangeData, RateOrigin } from '../types';
+
+export type Freshness = 'fresh' | 'aging' | 'stale';
+
+const FRESH_MS = 30 * 60 * 1000; // matches the rate server's cache window
+const AGING_MS = 6 * 60 * 60 * 1000;
+
+export const ORIGIN_LABELS: Record<RateOrigin, string> = {
+  live: 'Live quote',
+  'db-fresh': 'Recent quote',
+  'db-stale': 'Last known rate',
+  emergency: 'Estimate',
+  derived: 'Cross rate',
+  override: 'Set by our team',
+};
+
+const ORIGIN_DESCRIPTIONS: Record<RateOrigin, string> = {
+  live: 'Fetched from our rate sources just now.',
+  'db-fresh': 'Fetched from our rate sources recently and served from cache.',
+  'db-stale': 'Live sources could not be reached, so this is the most recent rate we stored.',
+  emergency: 'No live or stored quote was available. This is a built-in estimate, not a market quote.',
+  derived: 'No direct quote exists for this pair, so it was calculated from two other pairs.',
+  override: 'Our team set this rate manually while live sources are unavailable or being checked.',
+};
+
+// Emergency estimates are never "fresh", however recently they were served
+export const getFreshness = (data: Pick<ExchangeData, 'fetchedAt' | 'origin'>, now: number = Date.now()): Freshness => {
+  if (data.origin === 'emergency') return 'stale';
+  const age = now - new Date(data.fetchedAt).getTime();
+  if (age < FRESH_MS) return 'fresh';
+  if (age < AGING_MS) return 'aging';
+  return 'stale';
+};
+
+export const describeOrigin = (data: ExchangeData): string => ORIGIN_DESCRIPTIONS[data.origin];
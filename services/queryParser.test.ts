@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionQuery, parseConversionQuery } from './queryParser';
+
+const q = (amount: string, from: ConversionQuery['from'], to: ConversionQuery['to'], market?: ConversionQuery['market']): ConversionQuery =>
+  ({ amount, from, to, ...(market ? { market } : {}) });
+
+const CASES: [string, ConversionQuery | null][] = [
+  // Names, slang and symbols
+  ['how much is 250 quid in naira at black market rate', q('250', 'GBP', 'NGN', 'parallel')],
+  ['₦1.5m to usd', q('1500000', 'NGN', 'USD')],
+  ['$100', q('100', 'USD', 'NGN')],
+  ['£2k in naira', q('2000', 'GBP', 'NGN')],
+  ['N500k to pounds', q('500000', 'NGN', 'GBP')],
+  ['50 canadian dollars to naira', q('50', 'CAD', 'NGN')],
+  ['200 loonies', q('200', 'CAD', 'NGN')],
+  ['20 c$ to naira', q('20', 'CAD', 'NGN')],
+  ['100 aussie dollars in naira', q('100', 'AUD', 'NGN')],
+  ['convert 10000 naira into cedis', q('10000', 'NGN', 'GHS')],
+  ['50 dirhams to naira', q('50', 'AED', 'NGN')],
+  ['1000 yen in naira', q('1000', 'JPY', 'NGN')],
+  ['100 rupees to naira parallel', q('100', 'INR', 'NGN', 'parallel')],
+  ['how much is ₦50,000 in pounds?', q('50000', 'NGN', 'GBP')],
+  ['GH₵200 to naira', q('200', 'GHS', 'NGN')],
+
+  // ISO codes, including the ones that are English words
+  ['5000 kes to ugx', q('5000', 'KES', 'UGX')],
+  ['100 usd to eur', q('100', 'USD', 'EUR')],
+  ['100 usd in ngn at cbn rate', q('100', 'USD', 'NGN', 'official')],
+  ['100 CAD to naira', q('100', 'CAD', 'NGN')],
+  ['convert 100 usd to cad', q('100', 'USD', 'CAD')],
+  ['10m naira to cad', q('10000000', 'NGN', 'CAD')],
+  ['100 dollars to mad', q('100', 'USD', 'MAD')],
+  ['convert 100 mad to naira', q('100', 'MAD', 'NGN')],
+  ["I'm mad about 100 dollars", q('100', 'USD', 'NGN')],
+
+  // Amounts
+  ['2,500.50 euros to naira official rate', q('2500.5', 'EUR', 'NGN', 'official')],
+  ['1.5k usd', q('1500', 'USD', 'NGN')],
+  ['3 million naira in dollars', q('3000000', 'NGN', 'USD')],
+  ['1bn naira to usd', q('1000000000', 'NGN', 'USD')],
+  ['2.50 gbp', q('2.5', 'GBP', 'NGN')],
+  ['a dollar', q('1', 'USD', 'NGN')],
+  ['one pound in naira', q('1', 'GBP', 'NGN')],
+  ['usd', q('1', 'USD', 'NGN')],
+  ['100 euros', q('100', 'EUR', 'NGN')],
+
+  // Direction
+  ['how many cedis to a dollar', q('1', 'USD', 'GHS')],
+  ['how many naira to a dollar', q('1', 'USD', 'NGN')],
+  ['how many dollars for 1 pound', q('1', 'GBP', 'USD')],
+  ['naira per dollar', q('1', 'USD', 'NGN')],
+  ['rand to naira', q('1', 'ZAR', 'NGN')],
+  ['dollar rate today', q('1', 'USD', 'NGN')],
+  ['dollar to naira rate in lagos', q('1', 'USD', 'NGN')],
+  ['how much is 1 usd in the parallel market', q('1', 'USD', 'NGN', 'parallel')],
+  ['dollar to naira 5000', q('5000', 'USD', 'NGN')],
+  ['usd to ngn 500', q('500', 'USD', 'NGN')],
+  ['convert pounds to naira 200', q('200', 'GBP', 'NGN')],
+  ['gbp to usd 100', q('100', 'GBP', 'USD')],
+  ['naira in dollars 20k', q('20000', 'NGN', 'USD')],
+
+  // Left to the Gemini fallback
+  ['hello world', null],
+  ['', null],
+  ['naira to naira', null],
+  ['100 dollars to xyz', null],
+  ['1 btc to naira', null],
+  ['100 dollars in total', null],
+  ['1e5 naira', null],
+  ['2.5E+3 usd to naira', null],
+  ['0 dollars', null],
+  ['0.00 gbp to naira', null],
+];
+
+describe('parseConversionQuery', () => {
+  it.each(CASES)('%s', (text, expected) => {
+    expect(parseConversionQuery(text)).toEqual(expected);
+  });
+});
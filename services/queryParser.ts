@@ -0,0 +1,199 @@
+import { CURRENCY_CODES, ConversionState, CurrencyCode, Market } from '../types';
+import { ONE, multiply, parseDecimal, toDecimalString } from './money';
+
+// Deterministic parser for free-text conversion requests such as
+// "how much is 250 quid in naira at black market rate" or "₦1.5m to usd".
+// Queries it cannot read return null; the rate server then asks Gemini (GET /query).
+
+export interface ConversionQuery extends ConversionState {
+  // Only set when the query names a market
+  market?: Market;
+}
+
+// Names, slang and symbols, besides the ISO codes themselves. Longer aliases win
+// over shorter ones at the same position ("canadian dollar" over "dollar").
+const CURRENCY_ALIASES: Record<string, CurrencyCode> = {
+  'us dollar': 'USD', 'us dollars': 'USD', 'dollar': 'USD', 'dollars': 'USD', 'buck': 'USD', 'bucks': 'USD',
+  'greenback': 'USD', 'greenbacks': 'USD', 'usd$': 'USD', 'us$': 'USD', '$': 'USD',
+  'naira': 'NGN', 'nairas': 'NGN', '₦': 'NGN',
+  'pound': 'GBP', 'pounds': 'GBP', 'pound sterling': 'GBP', 'sterling': 'GBP', 'quid': 'GBP', 'british pound': 'GBP',
+  'british pounds': 'GBP', '£': 'GBP',
+  'euro': 'EUR', 'euros': 'EUR', '€': 'EUR',
+  'canadian dollar': 'CAD', 'canadian dollars': 'CAD', 'loonie': 'CAD', 'loonies': 'CAD', 'c$': 'CAD',
+  'cedi': 'GHS', 'cedis': 'GHS', 'ghana cedi': 'GHS', 'ghana cedis': 'GHS', 'gh₵': 'GHS',
+  'rand': 'ZAR', 'rands': 'ZAR',
+  'kenyan shilling': 'KES', 'kenyan shillings': 'KES', 'ksh': 'KES',
+  'egyptian pound': 'EGP', 'egyptian pounds': 'EGP', 'e£': 'EGP',
+  'moroccan dirham': 'MAD', 'moroccan dirhams': 'MAD',
+  'ugandan shilling': 'UGX', 'ugandan shillings': 'UGX', 'ush': 'UGX',
+  'tanzanian shilling': 'TZS', 'tanzanian shillings': 'TZS', 'tsh': 'TZS',
+  'rwandan franc': 'RWF', 'rwandan francs': 'RWF', 'frw': 'RWF',
+  'kwacha': 'ZMW', 'zambian kwacha': 'ZMW',
+  'cfa': 'XOF', 'cfa franc': 'XOF', 'cfa francs': 'XOF', 'west african cfa': 'XOF',
+  'fcfa': 'XAF', 'central african cfa': 'XAF',
+  'dirham': 'AED', 'dirhams': 'AED', 'uae dirham': 'AED', 'uae dirhams': 'AED',
+  'riyal': 'SAR', 'riyals': 'SAR', 'saudi riyal': 'SAR', 'saudi riyals': 'SAR',
+  'yuan': 'CNY', 'renminbi': 'CNY', 'rmb': 'CNY',
+  'rupee': 'INR', 'rupees': 'INR', 'indian rupee': 'INR', 'indian rupees': 'INR', '₹': 'INR',
+  'yen': 'JPY', 'japanese yen': 'JPY',
+  'swiss franc': 'CHF', 'swiss francs': 'CHF',
+  'australian dollar': 'AUD', 'australian dollars': 'AUD', 'aussie dollar': 'AUD', 'aussie dollars': 'AUD', 'a$': 'AUD',
+};
+
+// Codes that are also everyday English words are recognised in upper case, or
+// in lower case only where a currency is expected: after an amount or "to/in/into"
+const WORD_CODES: ReadonlySet<CurrencyCode> = new Set(['MAD', 'CAD']);
+const WORD_CODE_CONTEXT = String.raw`(?<=(?:\b(?:to|in|into)|\d(?:k|m|mn|bn|b)?)\s*)`;
+
+// Words that may follow "to/in/into" without naming a currency ("to a dollar")
+const TARGET_FILLERS: ReadonlySet<string> = new Set(['a', 'an', 'one', 'the']);
+// Three-letter words after an amount that are not unknown currency codes
+const SOURCE_FILLERS: ReadonlySet<string> = new Set(['the', 'and', 'for']);
+
+const PARALLEL_PATTERN = /\b(black|parallel|street|bdc|aboki)\b|\bopen market\b|\bbureau de change\b/;
+const OFFICIAL_PATTERN = /\b(official|cbn|nafem|nafex|interbank|bank rate)\b/;
+
+const MULTIPLIERS: Record<string, string> = {
+  k: '1000', thousand: '1000',
+  m: '1000000', mn: '1000000', mil: '1000000', million: '1000000',
+  b: '1000000000', bn: '1000000000', billion: '1000000000',
+};
+
+// "250", "2,500.50", "1.5k", "2m", "3 million"
+const AMOUNT_PATTERN = /(\d[\d,]*(?:\.\d+)?)(?:\s*(thousand|million|billion|mil)\b|(k|m|mn|bn|b)\b)?/;
+
+// Scientific notation right after the digits: "1e5", "2.5E+3"
+const EXPONENT_PATTERN = /^e[+-]?\d/;
+
+interface Mention {
+  code: CurrencyCode;
+  start: number;
+  end: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Symbols may touch digits ("$100", "£2k"); words need word boundaries, also
+// at the start of mixed aliases such as "c$"
+const aliasPattern = (alias: string) => {
+  const start = /^[a-z]/.test(alias) ? '\\b' : '';
+  const end = /[a-z]$/.test(alias) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(alias)}${end}`, 'g');
+};
+
+const ALIAS_PATTERNS: [RegExp, CurrencyCode][] = [
+  ...Object.entries(CURRENCY_ALIASES),
+  ...CURRENCY_CODES.filter(code => !WORD_CODES.has(code)).map(code => [code.toLowerCase(), code] as [string, CurrencyCode]),
+]
+  .sort(([a], [b]) => b.length - a.length)
+  .map(([alias, code]) => [aliasPattern(alias), code]);
+
+const findMentions = (text: string, original: string): Mention[] => {
+  const mentions: Mention[] = [];
+  const taken = new Array(text.length).fill(false);
+  const claim = (code: CurrencyCode, start: number, end: number) => {
+    if (taken.slice(start, end).some(Boolean)) return;
+    taken.fill(true, start, end);
+    mentions.push({ code, start, end });
+  };
+
+  ALIAS_PATTERNS.forEach(([pattern, code]) => {
+    for (const match of text.matchAll(pattern)) claim(code, match.index!, match.index! + match[0].length);
+  });
+  WORD_CODES.forEach(code => {
+    for (const match of original.matchAll(new RegExp(`\\b${code}\\b`, 'g'))) claim(code, match.index!, match.index! + code.length);
+    const lower = code.toLowerCase();
+    for (const match of text.matchAll(new RegExp(`${WORD_CODE_CONTEXT}\\b${lower}\\b`, 'g'))) claim(code, match.index!, match.index! + code.length);
+  });
+  // Nigerian shorthand: "N500k" means naira
+  for (const match of text.matchAll(/\bn(?=\d)/g)) claim('NGN', match.index!, match.index! + 1);
+
+  return mentions.sort((a, b) => a.start - b.start);
+};
+
+// Undefined when the query has no amount; null when it has one we can't use
+// ("0 dollars", "1e5 naira"), which must not be read as 1
+const parseAmount = (text: string): { amount: string; start: number; end: number } | undefined | null => {
+  const match = AMOUNT_PATTERN.exec(text);
+  if (!match) {
+    // "a dollar", "one pound"
+    const single = /\b(a|an|one)\s+(?=[a-z$£€₦])/.exec(text);
+    return single ? { amount: '1', start: single.index, end: single.index + single[0].length } : undefined;
+  }
+  if (EXPONENT_PATTERN.test(text.slice(match.index + match[0].length))) return null;
+  const value = parseDecimal(match[1]);
+  if (!value || value.units <= 0n) return null;
+  const suffix = match[2] || match[3];
+  const multiplier = suffix ? parseDecimal(MULTIPLIERS[suffix])! : ONE;
+  // "1.5" * 1000 is "1500.0"; drop the trailing fractional zeros
+  const amount = toDecimalString(multiply(value, multiplier)).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+  return { amount, start: match.index, end: match.index + match[0].length };
+};
+
+// "to <word>" or "<amount> <code>" naming a currency we can't read. Guessing
+// naira or dollars for it would answer a different question.
+const hasUnknownCurrency = (text: string, mentions: Mention[], amountEnd?: number): boolean => {
+  const unknownAt = (start: number) => !mentions.some(m => m.start === start);
+  const target = [...text.matchAll(/\b(?:in|to|into)\s+([^\s\d]+)/g)].some(match =>
+    !TARGET_FILLERS.has(match[1]) && unknownAt(match.index! + match[0].length - match[1].length)
+  );
+  if (target || amountEnd === undefined) return target;
+  const source = /^\s*([a-z]{3})\b/.exec(text.slice(amountEnd));
+  return !!source && !SOURCE_FILLERS.has(source[1]) && unknownAt(amountEnd + source[0].length - 3);
+};
+
+// The other side of a one-currency query: naira, or dollars when naira was named
+const counterpart = (code: CurrencyCode): CurrencyCode => (code === 'NGN' ? 'USD' : 'NGN');
+
+export const parseConversionQuery = (query: string): ConversionQuery | null => {
+  const original = query.replace(/[?!]/g, ' ').trim();
+  const text = original.toLowerCase();
+  if (!text) return null;
+
+  const mentions = findMentions(text, original);
+  if (mentions.length === 0) return null;
+
+  const amount = parseAmount(text);
+  if (amount === null) return null;
+  const market: Market | undefined = PARALLEL_PATTERN.test(text) ? 'parallel' : OFFICIAL_PATTERN.test(text) ? 'official' : undefined;
+
+  // The currency written against the amount: "£250", "250 quid", "250 of dollars"
+  const amountCurrency = amount && mentions.find(m =>
+    (m.end <= amount.start && /^\s*$/.test(text.slice(m.end, amount.start))) ||
+    (m.start >= amount.end && /^\s*(of\s+)?$/.test(text.slice(amount.end, m.start)))
+  );
+
+  let from: CurrencyCode;
+  let to: CurrencyCode;
+
+  const howMany = /\bhow many\s+/.exec(text);
+  const howManyTarget = howMany && mentions.find(m => m.start === howMany.index + howMany[0].length);
+
+  if (howManyTarget) {
+    // "how many naira to a dollar": the counted currency is the target
+    to = howManyTarget.code;
+    from = mentions.find(m => m !== howManyTarget && m.code !== to)?.code ?? counterpart(to);
+  } else if (mentions.length >= 2) {
+    // "dollar to naira 5000": a written direction wins over where the amount sits
+    const explicit = mentions.findIndex((m, i) =>
+      i + 1 < mentions.length && m.code !== mentions[i + 1].code && /^\s*(to|in|into)\s*$/.test(text.slice(m.end, mentions[i + 1].start))
+    );
+    const [first, second] = explicit >= 0
+      ? [mentions[explicit], mentions[explicit + 1]]
+      : amountCurrency
+        ? [amountCurrency, mentions.find(m => m !== amountCurrency && m.code !== amountCurrency.code) ?? mentions[1]]
+        : mentions;
+    // "naira per dollar" quotes the first currency in units of the second
+    const per = explicit < 0 && !amountCurrency && /^\s*per\s*$|^\s*(for|to)\s+(a|one|1)\s*$/.test(text.slice(first.end, second.start));
+    [from, to] = per ? [second.code, first.code] : [first.code, second.code];
+  } else {
+    // One currency: a target if the query says "in/to/into <currency>", otherwise the source
+    if (hasUnknownCurrency(text, mentions, amount?.end)) return null;
+    const only = mentions[0];
+    const isTarget = only !== amountCurrency && /\b(in|to|into)\s*$/.test(text.slice(0, only.start));
+    [from, to] = isTarget ? [counterpart(only.code), only.code] : [only.code, counterpart(only.code)];
+  }
+
+  if (from === to) return null;
+  return { amount: amount?.amount ?? '1', from, to, ...(market ? { market } : {}) };
+};
@@ -0,0 +1,112 @@
+import { CurrencyCode, ExchangeData, Market, MarketRate, Source } from '../types';
+import { getMarketRate, invertExchangeData, toMarketRate } from './markets';
+
+// A known rate for one stored pair, with the time it was fetched.
+export interface RateGraphEdge {
+  data: ExchangeData;
+  fetchedAt: number; // epoch ms
+}
+
+// Stored rates keyed by pair id ("EUR-NGN"). Each edge can be walked in
+// either direction by inverting it.
+export type RateGraph = Record<string, RateGraphEdge>;
+
+// Currencies we route cross rates through, in order of preference.
+export const TRIANGULATION_PIVOTS: CurrencyCode[] = ['NGN', 'USD'];
+
+// Pair ids that could serve as a leg when deriving from -> to.
+export const candidateLegPairs = (from: CurrencyCode, to: CurrencyCode): string[] =>
+  TRIANGULATION_PIVOTS
+    .filter(pivot => pivot !== from && pivot !== to)
+    .flatMap(pivot => [`${from}-${pivot}`, `${pivot}-${from}`, `${to}-${pivot}`, `${pivot}-${to}`]);
+
+const findLeg = (graph: RateGraph, from: CurrencyCode, to: CurrencyCode, minFetchedAt: number) => {
+  const direct = graph[`${from}-${to}`];
+  if (direct && direct.fetchedAt >= minFetchedAt && direct.data.rate > 0) return direct;
+
+  const inverse = graph[`${to}-${from}`];
+  if (inverse && inverse.fetchedAt >= minFetchedAt && inverse.data.rate > 0) {
+    return { ...inverse, data: invertExchangeData(inverse.data) };
+  }
+  return undefined;
+};
+
+// A leg's quoted rates are for that leg's pair, so they are dropped from the cross rate's sources
+const mergeSources = (a: Source[], b: Source[]): Source[] =>
+  [...a, ...b]
+    .filter((source, i, all) => all.findIndex(s => s.uri === source.uri) === i)
+    .map(({ quotedRate, ...source }) => source);
+
+const olderOf = (a: string, b: string) => (new Date(a).getTime() <= new Date(b).getTime() ? a : b);
+
+// from -> pivot -> to, per market. A market is only derived when both legs quote it.
+const chainMarket = (first: ExchangeData, second: ExchangeData, market: Market): MarketRate | undefined => {
+  const a = getMarketRate(first, market);
+  const b = getMarketRate(second, market);
+  if (!a || !b) return undefined;
+
+  const legA = market === 'parallel' ? first.parallelRate : first.officialRate;
+  const legB = market === 'parallel' ? second.parallelRate : second.officialRate;
+  const updatedAt = legA && legB ? olderOf(legA.updatedAt, legB.updatedAt) : (legA || legB)?.updatedAt || new Date().toISOString();
+  return toMarketRate(a * b, updatedAt, mergeSources(legA?.sources || [], legB?.sources || []));
+};
+
+export interface TriangulationOptions {
+  // Legs fetched longer ago than this are ignored
+  maxAgeMs: number;
+  now?: number;
+}
+
+// Derives from -> to through the first pivot for which both legs are known and
+// fresh enough. The result records the pivot and leg pairs in `derivation`.
+export const triangulate = (
+  graph: RateGraph,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  { maxAgeMs, now = Date.now() }: TriangulationOptions
+): ExchangeData | undefined => {
+  const minFetchedAt = now - maxAgeMs;
+
+  for (const pivot of TRIANGULATION_PIVOTS) {
+    if (pivot === from || pivot === to) continue;
+
+    const first = findLeg(graph, from, pivot, minFetchedAt);
+    const second = findLeg(graph, pivot, to, minFetchedAt);
+    if (!first || !second) continue;
+
+    const officialRate = chainMarket(first.data, second.data, 'official');
+    const parallelRate = chainMarket(first.data, second.data, 'parallel');
+    const older = first.fetchedAt <= second.fetchedAt ? first : second;
+    const confidences = [first.data.confidence, second.data.confidence].filter((c): c is number => c !== undefined);
+
+    return {
+      rate: parallelRate?.rate ?? officialRate?.rate ?? first.data.rate * second.data.rate,
+      officialRate,
+      parallelRate,
+      summary: `Cross rate derived from ${from}/${pivot} and ${pivot}/${to}.`,
+      fetchedAt: older.data.fetchedAt,
+      // A cross rate is only as trustworthy as its weakest leg
+      origin: [first, second].some(leg => leg.data.origin === 'emergency') ? 'emergency' : 'derived',
+      sources: mergeSources(first.data.sources, second.data.sources),
+      confidence: confidences.length ? Math.min(...confidences) : undefined,
+      derivation: {
+        via: pivot,
+        legs: [`${from}-${pivot}`, `${pivot}-${to}`]
+      }
+    };
+  }
+
+  return undefined;
+};
+
+// A quote for from -> to straight from the graph when the pair (or its reverse)
+// is stored, otherwise triangulated.
+export const resolveRate = (
+  graph: RateGraph,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  options: TriangulationOptions
+): ExchangeData | undefined => {
+  const minFetchedAt = (options.now ?? Date.now()) - options.maxAgeMs;
+  return findLeg(graph, from, to, minFetchedAt)?.data ?? triangulate(graph, from, to, options);
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RateHistoryEntry, bucketHistory, createMemoryHistoryRepository, createSupabaseHistoryRepository, getRateHistory } from './rateHistory';
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+const START = Date.parse('2026-03-01T00:00:00Z');
+
+const quotes = (count: number): RateHistoryEntry[] =>
+  Array.from({ length: count }, (_, i) => ({
+    pair: 'USD-NGN',
+    rate: 1500 + i,
+    officialRate: 1450 + i,
+    parallelRate: 1500 + i,
+    sources: [],
+    recordedAt: new Date(START + i * FIVE_MINUTES).toISOString()
+  }));
+
+// Answers like PostgREST with its default 1000-row cap, honouring .range()
+const cappedClient = (rows: unknown[], calls: { range: [number, number] }[]) => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    gte: () => query,
+    lte: () => query,
+    order: () => query,
+    range: (from: number, to: number) => {
+      calls.push({ range: [from, to] });
+      return Promise.resolve({ data: rows.slice(from, Math.min(to + 1, from + 1000)), error: null });
+    }
+  };
+  return { from: () => query, rpc: () => query } as unknown as SupabaseClient;
+};
+
+describe('createSupabaseHistoryRepository', () => {
+  it('reads every page of a window longer than one response', async () => {
+    const rows = quotes(2500).map(q => ({
+      pair: q.pair,
+      rate: q.rate,
+      official_rate: q.officialRate,
+      parallel_rate: q.parallelRate,
+      sources: [],
+      recorded_at: q.recordedAt
+    }));
+    const calls: { range: [number, number] }[] = [];
+    const repository = createSupabaseHistoryRepository(cappedClient(rows, calls));
+
+    const entries = await repository.list('USD-NGN', new Date(START), new Date(START + 2500 * FIVE_MINUTES));
+
+    expect(entries).toHaveLength(2500);
+    expect(entries[2499].rate).toBe(3999);
+    expect(calls.map(c => c.range)).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it('maps SQL candles, leaving missing markets undefined', async () => {
+    const calls: { range: [number, number] }[] = [];
+    const repository = createSupabaseHistoryRepository(cappedClient([{
+      bucket_start: '2026-03-01T00:00:00+00:00',
+      rate_open: '1500', rate_high: '1520', rate_low: '1490', rate_close: '1510',
+      official_open: null, official_high: null, official_low: null, official_close: null,
+      parallel_open: 1500, parallel_high: 1520, parallel_low: 1490, parallel_close: 1510,
+      quote_count: '12'
+    }], calls));
+
+    const [candle] = await repository.candles('USD-NGN', new Date(START), new Date(START + 3600_000), '1h');
+
+    expect(candle).toEqual({
+      bucketStart: '2026-03-01T00:00:00.000Z',
+      rate: { open: 1500, high: 1520, low: 1490, close: 1510 },
+      officialRate: undefined,
+      parallelRate: { open: 1500, high: 1520, low: 1490, close: 1510 },
+      quoteCount: 12
+    });
+  });
+});
+
+describe('bucketHistory', () => {
+  it('builds OHLC candles per interval', () => {
+    const candles = bucketHistory(quotes(24), '1h');
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({
+      bucketStart: '2026-03-01T00:00:00.000Z',
+      rate: { open: 1500, high: 1511, low: 1500, close: 1511 },
+      officialRate: { open: 1450, close: 1461 },
+      quoteCount: 12
+    });
+  });
+
+  it('counts the headline rate as official for pairs without a parallel market', () => {
+    const [candle] = bucketHistory([{ pair: 'USD-GBP', rate: 0.79, sources: [], recordedAt: new Date(START).toISOString() }], '1d');
+
+    expect(candle.officialRate).toEqual({ open: 0.79, high: 0.79, low: 0.79, close: 0.79 });
+    expect(candle.parallelRate).toBeUndefined();
+  });
+});
+
+describe('getRateHistory', () => {
+  it('covers the whole window, not just its oldest part', async () => {
+    const week = 7 * 24 * 12;
+    const repository = createMemoryHistoryRepository(quotes(week));
+
+    const candles = await getRateHistory('USD-NGN', new Date(START), new Date(START + week * FIVE_MINUTES), '1d', repository);
+
+    expect(candles).toHaveLength(7);
+    expect(candles[6].rate.close).toBe(1500 + week - 1);
+  });
+});
@@ -0,0 +1,235 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Source } from '../types';
+import { invertRate } from './money';
+
+// One fetched quote, as stored in the append-only history.
+export interface RateHistoryEntry {
+  pair: string;
+  // Headline rate, as served at the time
+  rate: number;
+  officialRate?: number;
+  parallelRate?: number;
+  sources: Source[];
+  provider?: string;
+  recordedAt: string; // ISO timestamp
+}
+
+export type HistoryInterval = '15m' | '1h' | '4h' | '1d' | '1w';
+
+const INTERVAL_MS: Record<HistoryInterval, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000
+};
+
+export const isHistoryInterval = (value: string): value is HistoryInterval => value in INTERVAL_MS;
+
+export interface Ohlc {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface RateCandle {
+  bucketStart: string; // ISO timestamp
+  rate: Ohlc;
+  officialRate?: Ohlc;
+  parallelRate?: Ohlc;
+  quoteCount: number;
+}
+
+export interface RateHistoryRepository {
+  append: (entry: RateHistoryEntry) => Promise<void>;
+  // Entries for `pair` recorded in [from, to], oldest first.
+  list: (pair: string, from: Date, to: Date) => Promise<RateHistoryEntry[]>;
+  // The same entries as OHLC candles, aggregated by the store where it can
+  candles: (pair: string, from: Date, to: Date, interval: HistoryInterval) => Promise<RateCandle[]>;
+}
+
+// --- Repositories ---
+
+const HISTORY_TABLE = 'currency_rate_history';
+const CANDLES_FUNCTION = 'rate_history_candles';
+
+interface HistoryRow {
+  pair: string;
+  rate: number;
+  official_rate: number | null;
+  parallel_rate: number | null;
+  sources: Source[] | null;
+  provider: string | null;
+  recorded_at: string;
+}
+
+// One bucket as returned by rate_history_candles; market columns are null
+// when no quote in the bucket had that market
+interface CandleRow {
+  bucket_start: string;
+  rate_open: number;
+  rate_high: number;
+  rate_low: number;
+  rate_close: number;
+  official_open: number | null;
+  official_high: number | null;
+  official_low: number | null;
+  official_close: number | null;
+  parallel_open: number | null;
+  parallel_high: number | null;
+  parallel_low: number | null;
+  parallel_close: number | null;
+  quote_count: number;
+}
+
+// PostgREST caps every response (1000 rows by default), so long windows are
+// read page by page until a short page shows the end.
+const PAGE_SIZE = 1000;
+
+const fetchAllPages = async <T>(fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await fetchPage(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const toOhlc = (open: number | null, high: number | null, low: number | null, close: number | null): Ohlc | undefined =>
+  open != null ? { open: Number(open), high: Number(high), low: Number(low), close: Number(close) } : undefined;
+
+export const createSupabaseHistoryRepository = (client: SupabaseClient): RateHistoryRepository => ({
+  append: async (entry) => {
+    const { error } = await client.from(HISTORY_TABLE).insert({
+      pair: entry.pair,
+      rate: entry.rate,
+      official_rate: entry.officialRate ?? null,
+      parallel_rate: entry.parallelRate ?? null,
+      sources: entry.sources,
+      provider: entry.provider ?? null,
+      recorded_at: entry.recordedAt
+    });
+    if (error) throw error;
+  },
+  list: async (pair, from, to) => {
+    const rows = await fetchAllPages<HistoryRow>((start, end) =>
+      client
+        .from(HISTORY_TABLE)
+        .select('*')
+        .eq('pair', pair)
+        .gte('recorded_at', from.toISOString())
+        .lte('recorded_at', to.toISOString())
+        .order('recorded_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(start, end)
+    );
+
+    return rows.map(row => ({
+      pair: row.pair,
+      rate: Number(row.rate),
+      officialRate: row.official_rate != null ? Number(row.official_rate) : undefined,
+      parallelRate: row.parallel_rate != null ? Number(row.parallel_rate) : undefined,
+      sources: row.sources || [],
+      provider: row.provider || undefined,
+      recordedAt: row.recorded_at
+    }));
+  },
+  // Bucketed in SQL: a year of 5-minute quotes is ~100k rows but only 53 weekly candles
+  candles: async (pair, from, to, interval) => {
+    const rows = await fetchAllPages<CandleRow>((start, end) =>
+      client
+        .rpc(CANDLES_FUNCTION, {
+          p_pair: pair,
+          p_from: from.toISOString(),
+          p_to: to.toISOString(),
+          p_bucket_seconds: INTERVAL_MS[interval] / 1000
+        })
+        .range(start, end)
+    );
+
+    return rows.map(row => ({
+      bucketStart: new Date(row.bucket_start).toISOString(),
+      rate: toOhlc(row.rate_open, row.rate_high, row.rate_low, row.rate_close)!,
+      officialRate: toOhlc(row.official_open, row.official_high, row.official_low, row.official_close),
+      parallelRate: toOhlc(row.parallel_open, row.parallel_high, row.parallel_low, row.parallel_close),
+      quoteCount: Number(row.quote_count)
+    }));
+  }
+});
+
+// Local stand-in for tests and offline development.
+export const createMemoryHistoryRepository = (seed: RateHistoryEntry[] = []): RateHistoryRepository => {
+  const entries = [...seed];
+
+  const list = async (pair: string, from: Date, to: Date) =>
+    entries
+      .filter(e => {
+        const t = new Date(e.recordedAt).getTime();
+        return e.pair === pair && t >= from.getTime() && t <= to.getTime();
+      })
+      .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+
+  return {
+    append: async (entry) => {
+      entries.push({ ...entry });
+    },
+    list,
+    candles: async (pair, from, to, interval) => bucketHistory(await list(pair, from, to), interval)
+  };
+};
+
+// --- Time series ---
+
+const updateOhlc = (ohlc: Ohlc | undefined, value: number): Ohlc =>
+  ohlc
+    ? { open: ohlc.open, high: Math.max(ohlc.high, value), low: Math.min(ohlc.low, value), close: value }
+    : { open: value, high: value, low: value, close: value };
+
+// Groups chronologically ordered entries into fixed-width OHLC buckets.
+// Empty buckets are omitted rather than filled.
+export const bucketHistory = (entries: RateHistoryEntry[], interval: HistoryInterval): RateCandle[] => {
+  const width = INTERVAL_MS[interval];
+  const candles = new Map<number, RateCandle>();
+
+  entries.forEach(entry => {
+    const start = Math.floor(new Date(entry.recordedAt).getTime() / width) * width;
+    const candle = candles.get(start);
+    // Pairs without a parallel market only ever had a headline (official) rate
+    const officialRate = entry.officialRate ?? (entry.parallelRate ? undefined : entry.rate);
+    candles.set(start, {
+      bucketStart: new Date(start).toISOString(),
+      rate: updateOhlc(candle?.rate, entry.rate),
+      officialRate: officialRate ? updateOhlc(candle?.officialRate, officialRate) : candle?.officialRate,
+      parallelRate: entry.parallelRate ? updateOhlc(candle?.parallelRate, entry.parallelRate) : candle?.parallelRate,
+      quoteCount: (candle?.quoteCount || 0) + 1
+    });
+  });
+
+  return [...candles.entries()].sort(([a], [b]) => a - b).map(([, candle]) => candle);
+};
+
+const invertOhlc = (ohlc: Ohlc): Ohlc => ({
+  open: invertRate(ohlc.open),
+  high: invertRate(ohlc.low),
+  low: invertRate(ohlc.high),
+  close: invertRate(ohlc.close)
+});
+
+// Candles for the reverse pair, mirroring invertExchangeData for single quotes.
+export const invertCandles = (candles: RateCandle[]): RateCandle[] =>
+  candles.map(candle => ({
+    ...candle,
+    rate: invertOhlc(candle.rate),
+    officialRate: candle.officialRate ? invertOhlc(candle.officialRate) : undefined,
+    parallelRate: candle.parallelRate ? invertOhlc(candle.parallelRate) : undefined
+  }));
+
+export const getRateHistory = async (
+  pair: string,
+  from: Date,
+  to: Date,
+  interval: HistoryInterval,
+  repository: RateHistoryRepository
+): Promise<RateCandle[]> => repository.candles(pair, from, to, interval);
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ExchangeData } from '../types';
+import { buildConsensus } from './consensus';
+import {
+  ProviderChainError,
+  RateProvider,
+  createManualProvider,
+  createMockProvider,
+  fetchFromProviderChain,
+  parseManualRatesCsv,
+  resolveProviderChain
+} from './rateProviders';
+
+const live = (id: string, rates: number[], options: Partial<RateProvider> = {}): RateProvider => {
+  let call = 0;
+  return {
+    id,
+    timeoutMs: 1000,
+    consensus: true,
+    samples: rates.length,
+    fetchRate: async () => {
+      const rate = rates[call++ % rates.length];
+      return { rate, fetchedAt: '2026-03-01T00:00:00.000Z', origin: 'live', summary: id, sources: [] };
+    },
+    ...options
+  };
+};
+
+// Stand-in for the rate server's consensus step: the median of the pooled quotes
+const median = (quotes: ExchangeData[]): ExchangeData => ({
+  ...quotes[0],
+  rate: buildConsensus(quotes.map(q => ({ providerId: q.provider!, rate: q.rate }))).rate,
+  consensus: { rate: 0, spread: 0, quoteCount: quotes.length, rejectedCount: 0 }
+});
+
+const manual = createManualProvider({ csv: 'pair,official\nUSD-NGN,1400' });
+
+describe('fetchFromProviderChain', () => {
+  it('never blends a static quote into the live consensus', async () => {
+    const result = await fetchFromProviderChain([live('gemini', [1580]), manual], 'USD', 'NGN', median);
+
+    expect(result.rate).toBe(1580);
+    expect(result.provider).toBe('gemini');
+    expect(result.consensus?.quoteCount).toBe(1);
+  });
+
+  it('combines every sample of the live providers', async () => {
+    const providers = [live('gemini', [1580, 1584, 1582]), live('feed', [1579], { samples: 1 }), manual];
+    const result = await fetchFromProviderChain(providers, 'USD', 'NGN', median);
+
+    expect(result.rate).toBe(1581);
+    expect(result.consensus?.quoteCount).toBe(4);
+  });
+
+  it('falls back to the next provider in priority order when the live ones fail', async () => {
+    const failing = live('gemini', [0], { fetchRate: () => Promise.reject(new Error('quota exceeded')) });
+    const result = await fetchFromProviderChain([failing, manual], 'USD', 'NGN', median);
+
+    expect(result.rate).toBe(1400);
+    expect(result.provider).toBe('manual');
+    expect(result.consensus).toBeUndefined();
+  });
+
+  it('respects a static provider placed before the live ones', async () => {
+    const result = await fetchFromProviderChain([manual, live('gemini', [1580])], 'USD', 'NGN', median);
+    expect(result.provider).toBe('manual');
+  });
+
+  it('reports every failure when nothing answers', async () => {
+    const providers = [
+      createMockProvider({ id: 'mock-error', rates: {}, behaviour: 'error', latencyMs: 0 }),
+      createMockProvider({ id: 'mock-hang', rates: {}, behaviour: 'hang', timeoutMs: 10 })
+    ];
+    const err = await fetchFromProviderChain(providers, 'USD', 'NGN').catch(e => e);
+
+    expect(err).toBeInstanceOf(ProviderChainError);
+    expect((err as ProviderChainError).failures.map(f => f.providerId)).toEqual(['mock-error', 'mock-hang']);
+  });
+
+  it('moves on when the consensus step itself fails', async () => {
+    const combine = () => { throw new Error('no market rates'); };
+    const result = await fetchFromProviderChain([live('gemini', [1580]), manual], 'USD', 'NGN', combine);
+    expect(result.provider).toBe('manual');
+  });
+});
+
+describe('manual provider', () => {
+  it('skips the header and malformed rows', () => {
+    expect(parseManualRatesCsv('pair,official,parallel\nUSD-NGN,1580,1620\nusd-gbp,0.79\nEUR-NGN,abc')).toEqual({
+      'USD-NGN': { rate: 1580, parallelRate: 1620 }
+    });
+  });
+
+  it('inverts the stored pair for the reverse direction', async () => {
+    const result = await manual.fetchRate('NGN', 'USD');
+    expect(result.rate).toBeCloseTo(1 / 1400);
+  });
+});
+
+describe('resolveProviderChain', () => {
+  it('keeps the configured order and drops unknown or unconfigured ids', () => {
+    const chain = resolveProviderChain([' manual', 'nope', 'feed', 'gemini'], { gemini: live('gemini', [1]), manual, feed: undefined });
+    expect(chain.map(p => p.id)).toEqual(['manual', 'gemini']);
+  });
+});
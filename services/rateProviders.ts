@@ -0,0 +1,314 @@
+import { ExchangeData, CurrencyCode } from '../types';
+import { toMarketRate } from './markets';
+import { invertRate } from './money';
+
+// A source of exchange rates. Providers are tried in priority order by
+// fetchFromProviderChain, each bounded by its own timeout.
+export interface RateProvider {
+  id: string;
+  timeoutMs: number;
+  // Live, independent sources whose quotes may be combined into a consensus.
+  // Static ones (a manual table, a fixed feed) only ever answer on their own.
+  consensus?: boolean;
+  // How many independent quotes to request when collecting for consensus (default 1)
+  samples?: number;
+  fetchRate: (from: CurrencyCode, to: CurrencyCode) => Promise<ExchangeData>;
+}
+
+export interface ProviderFailure {
+  providerId: string;
+  error: unknown;
+}
+
+export class ProviderChainError extends Error {
+  failures: ProviderFailure[];
+
+  constructor(failures: ProviderFailure[]) {
+    const summary = failures.map(f => `${f.providerId}: ${describeError(f.error)}`).join('; ');
+    super(failures.length ? `All rate providers failed (${summary})` : 'No rate providers configured');
+    this.name = 'ProviderChainError';
+    this.failures = failures;
+  }
+}
+
+// A provider answered, but has no rate for the pair. Not a sign of ill health.
+export class RateUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateUnavailableError';
+  }
+}
+
+export class ProviderTimeoutError extends Error {
+  constructor(label: string, ms: number) {
+    super(`${label} timed out after ${ms}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+// Non-2xx response from an HTTP-based provider
+export class ProviderHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+const describeError = (err: unknown): string =>
+  err instanceof Error ? err.message : String(err);
+
+const pairId = (from: CurrencyCode, to: CurrencyCode) => `${from}-${to}`;
+
+export const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new ProviderTimeoutError(label, ms)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      err => { clearTimeout(timer); reject(err); }
+    );
+  });
+
+// Tries each provider in order and returns the first successful quote,
+// tagged with the id of the provider that produced it. Consensus providers are
+// queried together at the position of the first of them and their quotes
+// reduced by `combine`; if none of them answers, the chain moves on.
+export const fetchFromProviderChain = async (
+  providers: RateProvider[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  combine: (quotes: ExchangeData[]) => ExchangeData = quotes => quotes[0]
+): Promise<ExchangeData> => {
+  const failures: ProviderFailure[] = [];
+  const pooled = providers.filter(provider => provider.consensus);
+
+  for (const provider of providers) {
+    if (provider.consensus) {
+      if (provider !== pooled[0]) continue;
+      try {
+        return combine(await collectQuotes(pooled, from, to));
+      } catch (error) {
+        if (error instanceof ProviderChainError) {
+          failures.push(...error.failures);
+        } else {
+          console.warn(`Consensus failed for ${pairId(from, to)}`, error);
+          failures.push({ providerId: pooled.map(p => p.id).join('+'), error });
+        }
+      }
+      continue;
+    }
+
+    try {
+      const result = await withTimeout(provider.fetchRate(from, to), provider.timeoutMs, provider.id);
+      return { ...result, provider: provider.id };
+    } catch (error) {
+      console.warn(`Rate provider "${provider.id}" failed for ${pairId(from, to)}`, error);
+      failures.push({ providerId: provider.id, error });
+    }
+  }
+
+  throw new ProviderChainError(failures);
+};
+
+// Queries the given providers concurrently (repeating those with `samples` > 1)
+// and returns all successful quotes, ordered by provider priority.
+export const collectQuotes = async (
+  providers: RateProvider[],
+  from: CurrencyCode,
+  to: CurrencyCode
+): Promise<ExchangeData[]> => {
+  const attempts = providers.flatMap(provider =>
+    Array.from({ length: Math.max(1, provider.samples ?? 1) }, () =>
+      withTimeout(provider.fetchRate(from, to), provider.timeoutMs, provider.id)
+        .then((result): ExchangeData => ({ ...result, provider: provider.id }))
+        .catch((error): ProviderFailure => {
+          console.warn(`Rate provider "${provider.id}" failed for ${pairId(from, to)}`, error);
+          return { providerId: provider.id, error };
+        })
+    )
+  );
+
+  const settled = await Promise.all(attempts);
+  const quotes = settled.filter((r): r is ExchangeData => 'rate' in r);
+  if (quotes.length === 0) {
+    throw new ProviderChainError(settled.filter((r): r is ProviderFailure => 'error' in r));
+  }
+  return quotes;
+};
+
+// Picks the providers named in `order` that are actually available, keeping
+// the configured priority. Unknown or unconfigured ids are skipped.
+export const resolveProviderChain = (
+  order: string[],
+  available: Record<string, RateProvider | undefined>
+): RateProvider[] =>
+  order
+    .map(id => id.trim())
+    .filter(Boolean)
+    .map(id => available[id])
+    .filter((provider): provider is RateProvider => !!provider);
+
+// Looks up a rate table by pair, inverting the reverse pair when only that is known.
+const lookupRate = (table: Record<string, number>, from: CurrencyCode, to: CurrencyCode): number | undefined => {
+  const direct = table[pairId(from, to)];
+  if (direct > 0) return direct;
+  const inverse = table[pairId(to, from)];
+  if (inverse > 0) return invertRate(inverse);
+  return undefined;
+};
+
+// --- JSON HTTP feed ---
+
+export interface JsonFeedProviderOptions {
+  id?: string;
+  // URL template; "{from}" and "{to}" are replaced with the currency codes.
+  url: string;
+  timeoutMs?: number;
+  // Set for a live market feed whose quotes should join the consensus
+  consensus?: boolean;
+}
+
+// Expects a JSON body of the form { "officialRate": 1580.5, "parallelRate": 1620, "summary": "..." }.
+// A bare "rate" is accepted as the official rate.
+export const createJsonFeedProvider = ({ id = 'feed', url, timeoutMs = 5000, consensus = false }: JsonFeedProviderOptions): RateProvider => ({
+  id,
+  timeoutMs,
+  consensus,
+  fetchRate: async (from, to) => {
+    const response = await fetch(url.replace('{from}', from).replace('{to}', to));
+    if (!response.ok) {
+      throw new ProviderHttpError(response.status, `Feed responded with ${response.status}`);
+    }
+
+    const body = await response.json();
+    const positive = (value: unknown) => {
+      const n = Number(value);
+      return Number.isFinite(n) && n > 0 ? n : undefined;
+    };
+    const officialRate = positive(body?.officialRate ?? body?.rate);
+    const parallelRate = positive(body?.parallelRate);
+    if (!officialRate && !parallelRate) {
+      throw new Error('Feed returned no usable rate');
+    }
+
+    const now = new Date().toISOString();
+    const sources = [{ title: new URL(response.url || url).hostname, uri: response.url || url }];
+    return {
+      rate: (parallelRate ?? officialRate) as number,
+      officialRate: toMarketRate(officialRate, now, sources),
+      parallelRate: toMarketRate(parallelRate, now, sources),
+      summary: typeof body?.summary === 'string' ? body.summary : '',
+      fetchedAt: now,
+      origin: 'live',
+      sources
+    };
+  }
+});
+
+// --- CSV / manual entry ---
+
+export interface ManualProviderOptions {
+  id?: string;
+  // Lines of "pair,official_rate[,parallel_rate]", e.g. "USD-NGN,1580,1620". A header row is allowed.
+  csv: string;
+  timeoutMs?: number;
+}
+
+export const parseManualRatesCsv = (csv: string): Record<string, { rate: number; parallelRate?: number }> => {
+  const rows: Record<string, { rate: number; parallelRate?: number }> = {};
+
+  csv.split(/\r?\n/).forEach(line => {
+    const [pair, rateCell, parallelCell] = line.split(',').map(cell => cell.trim());
+    const rate = parseFloat(rateCell);
+    if (!pair || !/^[A-Z]{3}-[A-Z]{3}$/.test(pair) || !(rate > 0)) return;
+
+    const parallelRate = parseFloat(parallelCell);
+    rows[pair] = { rate, parallelRate: parallelRate > 0 ? parallelRate : undefined };
+  });
+
+  return rows;
+};
+
+export const createManualProvider = ({ id = 'manual', csv, timeoutMs = 1000 }: ManualProviderOptions): RateProvider => {
+  const rows = parseManualRatesCsv(csv);
+  const rateTable = Object.fromEntries(Object.entries(rows).map(([pair, row]) => [pair, row.rate]));
+  const parallelTable = Object.fromEntries(
+    Object.entries(rows)
+      .filter(([, row]) => row.parallelRate)
+      .map(([pair, row]) => [pair, row.parallelRate as number])
+  );
+
+  return {
+    id,
+    timeoutMs,
+    fetchRate: async (from, to) => {
+      const officialRate = lookupRate(rateTable, from, to);
+      if (!officialRate) {
+        throw new RateUnavailableError(`No manual rate entered for ${pairId(from, to)}`);
+      }
+      const parallelRate = lookupRate(parallelTable, from, to);
+      const now = new Date().toISOString();
+      return {
+        rate: parallelRate ?? officialRate,
+        officialRate: toMarketRate(officialRate, now, []),
+        parallelRate: toMarketRate(parallelRate, now, []),
+        summary: 'Rate entered manually by an operator.',
+        fetchedAt: now,
+        origin: 'live',
+        sources: []
+      };
+    }
+  };
+};
+
+// --- Local mock ---
+
+export type MockBehaviour = 'ok' | 'error' | 'hang';
+
+export interface MockProviderOptions {
+  id?: string;
+  rates: Record<string, number>;
+  behaviour?: MockBehaviour;
+  latencyMs?: number;
+  timeoutMs?: number;
+}
+
+// Offline stand-in for a live provider. The 'error' and 'hang' behaviours let
+// the fallback chain be exercised end to end without network access.
+export const createMockProvider = ({
+  id = 'mock',
+  rates,
+  behaviour = 'ok',
+  latencyMs = 150,
+  timeoutMs = 2000
+}: MockProviderOptions): RateProvider => ({
+  id,
+  timeoutMs,
+  fetchRate: (from, to) => {
+    if (behaviour === 'hang') {
+      return new Promise<ExchangeData>(() => {});
+    }
+
+    return new Promise<ExchangeData>((resolve, reject) => {
+      setTimeout(() => {
+        if (behaviour === 'error') {
+          reject(new Error(`Mock provider "${id}" configured to fail`));
+          return;
+        }
+        const rate = lookupRate(rates, from, to);
+        if (!rate) {
+          reject(new RateUnavailableError(`Mock provider has no rate for ${pairId(from, to)}`));
+          return;
+        }
+        const now = new Date().toISOString();
+        resolve({
+          rate,
+          officialRate: toMarketRate(rate, now, []),
+          summary: 'Mock rate for local development.',
+          fetchedAt: now,
+          origin: 'live',
+          sources: []
+        });
+      }, latencyMs);
+    });
+  }
+});
@@ -0,0 +1,102 @@
+import { CurrencyCode, ExchangeData, Market, SanityIssue } from '../types';
+import { RateHistoryEntry } from './rateHistory';
+import { getPlausibleRange } from './rateSchema';
+import { median } from './consensus';
+import { formatRate } from './money';
+
+// Last check on a consensus quote before it is stored and served to everyone.
+// Response parsing rejects absurd numbers per answer; this stage compares the
+// combined result with recent history, so a misread "158.00" for 1580.00 is
+// quarantined for review instead of cached.
+
+// Quotes are compared with what was recorded over this window. After a longer
+// gap a large move is more likely real, so only the sanity band applies.
+export const SANITY_HISTORY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Largest move from the window's median accepted without review
+export const DEFAULT_MAX_JUMP = 0.25;
+
+// Parallel naira rates sit at or above the official rate: a small inversion is
+// quoting noise, a large one (or a premium over 100%) is a misread.
+const NAIRA_PREMIUM_RANGE: [number, number] = [-0.03, 1];
+// Other pairs trade as one market; two quotes should roughly agree
+const CROSS_PREMIUM_RANGE: [number, number] = [-0.1, 0.1];
+
+const MARKETS: Market[] = ['official', 'parallel'];
+
+export const describeIssues = (issues: SanityIssue[]): string => issues.map(issue => issue.message).join('; ');
+
+export class SuspiciousRateError extends Error {
+  constructor(public pair: string, public issues: SanityIssue[]) {
+    super(`Quote for ${pair} held for review: ${describeIssues(issues)}`);
+    this.name = 'SuspiciousRateError';
+  }
+}
+
+const quotedRate = (data: ExchangeData, market: Market) =>
+  market === 'official' ? data.officialRate?.rate : data.parallelRate?.rate;
+
+const recordedRate = (entry: RateHistoryEntry, market: Market) =>
+  market === 'official' ? entry.officialRate : entry.parallelRate;
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+// 158 against 1580 is off by a power of ten almost exactly; worth saying so
+const misplacedDecimal = (rate: number, reference: number): boolean => {
+  const magnitude = Math.log10(rate / reference);
+  return Math.round(magnitude) !== 0 && Math.abs(magnitude - Math.round(magnitude)) < 0.05;
+};
+
+// Returns every problem with `candidate`; an empty list means it can be stored.
+// `recent` is the pair's history over SANITY_HISTORY_WINDOW_MS.
+export const checkRateSanity = (
+  candidate: ExchangeData,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  recent: RateHistoryEntry[],
+  maxJump: number = DEFAULT_MAX_JUMP
+): SanityIssue[] => {
+  const issues: SanityIssue[] = [];
+  const range = getPlausibleRange(from, to);
+  const format = (rate: number) => formatRate(rate, to, 'en');
+
+  MARKETS.forEach(market => {
+    const rate = quotedRate(candidate, market);
+    if (rate === undefined) return;
+
+    if (!(rate > 0) || (range && (rate < range[0] || rate > range[1]))) {
+      const expected = range ? ` (expected ${format(range[0])}–${format(range[1])})` : '';
+      issues.push({ check: 'plausibility', market, message: `${market} rate ${format(rate)} is implausible for ${from}-${to}${expected}` });
+      return;
+    }
+
+    const past = recent.map(entry => recordedRate(entry, market)).filter((r): r is number => r !== undefined && r > 0);
+    if (past.length === 0) return;
+    const reference = median(past);
+    const change = rate / reference - 1;
+    if (Math.abs(change) > maxJump) {
+      const hint = misplacedDecimal(rate, reference) ? ', likely a misplaced decimal point' : '';
+      issues.push({
+        check: 'history',
+        market,
+        message: `${market} rate ${format(rate)} is ${change > 0 ? '+' : ''}${percent(change)} from the last day's median of ${format(reference)}${hint}`
+      });
+    }
+  });
+
+  const official = candidate.officialRate?.rate;
+  const parallel = candidate.parallelRate?.rate;
+  if (official && parallel && official > 0 && parallel > 0) {
+    // Premium in naira terms: more naira per unit of foreign currency on the street
+    const premium = from === 'NGN' ? official / parallel - 1 : parallel / official - 1;
+    const [min, max] = from === 'NGN' || to === 'NGN' ? NAIRA_PREMIUM_RANGE : CROSS_PREMIUM_RANGE;
+    if (premium < min || premium > max) {
+      issues.push({
+        check: 'consistency',
+        message: `parallel rate ${format(parallel)} against official ${format(official)} is a ${percent(premium)} premium (expected ${percent(min)} to ${percent(max)})`
+      });
+    }
+  }
+
+  return issues;
+};
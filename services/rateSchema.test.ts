@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { CurrencyCode } from '../types';
+import { RateResponseError, getPlausibleRange, parseRateResponse } from './rateSchema';
+import recorded from './__fixtures__/geminiRateResponses.json';
+
+interface RecordedResponse {
+  name: string;
+  from: CurrencyCode;
+  to: CurrencyCode;
+  text: string;
+  expected?: Record<string, unknown>;
+  errorCode?: string;
+  field?: string;
+}
+
+const parseError = (run: () => unknown): RateResponseError => {
+  try {
+    run();
+  } catch (err) {
+    if (err instanceof RateResponseError) return err;
+    throw err;
+  }
+  throw new Error('Expected a RateResponseError');
+};
+
+describe('parseRateResponse over recorded model responses', () => {
+  for (const response of recorded as RecordedResponse[]) {
+    it(response.name, () => {
+      const run = () => parseRateResponse(response.text, response.from, response.to);
+      if (response.expected) {
+        expect(run()).toEqual(response.expected);
+      } else {
+        const err = parseError(run);
+        expect(err.code).toBe(response.errorCode);
+        if (response.field) expect(err.field).toBe(response.field);
+      }
+    });
+  }
+});
+
+describe('getPlausibleRange', () => {
+  it('inverts the band for the reverse pair', () => {
+    const [min, max] = getPlausibleRange('NGN', 'USD')!;
+    expect(min).toBeCloseTo(1 / 5000);
+    expect(max).toBeCloseTo(1 / 300);
+  });
+
+  it('has no band for uncommon crosses', () => {
+    expect(getPlausibleRange('KES', 'GHS')).toBeUndefined();
+  });
+});
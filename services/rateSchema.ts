@@ -0,0 +1,137 @@
+import { CurrencyCode } from '../types';
+
+export type RateResponseErrorCode =
+  | 'NO_JSON'
+  | 'INVALID_JSON'
+  | 'MISSING_RATE'
+  | 'NON_NUMERIC_RATE'
+  | 'IMPLAUSIBLE_RATE';
+
+export class RateResponseError extends Error {
+  code: RateResponseErrorCode;
+  field?: string;
+
+  constructor(code: RateResponseErrorCode, message: string, field?: string) {
+    super(message);
+    this.name = 'RateResponseError';
+    this.code = code;
+    this.field = field;
+  }
+}
+
+export interface ParsedRateResponse {
+  // Headline rate: parallelRate when present, otherwise officialRate
+  rate: number;
+  officialRate?: number;
+  parallelRate?: number;
+  summary: string;
+}
+
+// Rough sanity bands (units of `to` per 1 `from`) for canonical pairs. They
+// only catch order-of-magnitude mistakes, not day-to-day moves.
+const PLAUSIBLE_RANGES: Record<string, [number, number]> = {
+  'USD-NGN': [300, 5000],
+  'GBP-NGN': [400, 6500],
+  'EUR-NGN': [350, 5500],
+  'CAD-NGN': [200, 3800],
+  'GHS-NGN': [27, 400],
+  'ZAR-NGN': [18, 270],
+  'KES-NGN': [2.5, 37],
+  'EGP-NGN': [6.5, 98],
+  'MAD-NGN': [34, 520],
+  'UGX-NGN': [0.088, 1.3],
+  'TZS-NGN': [0.13, 1.9],
+  'RWF-NGN': [0.22, 3.3],
+  'ZMW-NGN': [13, 200],
+  'XOF-NGN': [0.55, 8.3],
+  'XAF-NGN': [0.55, 8.3],
+  'AED-NGN': [86, 1300],
+  'SAR-NGN': [84, 1300],
+  'CNY-NGN': [44, 660],
+  'INR-NGN': [3.7, 55],
+  'JPY-NGN': [2.1, 32],
+  'CHF-NGN': [400, 5900],
+  'AUD-NGN': [210, 3100],
+  'USD-EUR': [0.5, 1.5],
+  'USD-GBP': [0.4, 1.3],
+  'USD-CAD': [0.9, 2],
+  'EUR-GBP': [0.6, 1.2],
+  'EUR-CAD': [1, 2.2],
+  'GBP-CAD': [1.2, 2.6]
+};
+
+export const getPlausibleRange = (from: CurrencyCode, to: CurrencyCode): [number, number] | undefined => {
+  const direct = PLAUSIBLE_RANGES[`${from}-${to}`];
+  if (direct) return direct;
+  const inverse = PLAUSIBLE_RANGES[`${to}-${from}`];
+  if (inverse) return [1 / inverse[1], 1 / inverse[0]];
+  return undefined;
+};
+
+// Returns the JSON payload of a model response: the last ```json fenced block,
+// or the whole text when the model answered with bare JSON.
+export const extractJsonPayload = (text: string): string => {
+  const fenced = [...text.matchAll(/```json\s*\n([\s\S]*?)\n\s*```/g)];
+  if (fenced.length > 0) return fenced[fenced.length - 1][1];
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') && trimmed.endsWith('}')) return trimmed;
+
+  throw new RateResponseError('NO_JSON', 'Response did not contain a JSON block');
+};
+
+// Accepts JSON numbers and plain numeric strings such as "1,580.50"; anything
+// else (percentages, ranges, prose) is rejected rather than guessed at.
+const toNumber = (value: unknown, field: string): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && /^\d{1,3}(,\d{3})*(\.\d+)?$|^\d+(\.\d+)?$/.test(value.trim())) {
+    return parseFloat(value.replace(/,/g, ''));
+  }
+  throw new RateResponseError('NON_NUMERIC_RATE', `"${field}" is not a number: ${JSON.stringify(value)}`, field);
+};
+
+const checkPlausible = (value: number, from: CurrencyCode, to: CurrencyCode, field: string) => {
+  const range = getPlausibleRange(from, to);
+  if (value <= 0 || (range && (value < range[0] || value > range[1]))) {
+    const expected = range ? ` (expected ${range[0]}–${range[1]})` : '';
+    throw new RateResponseError('IMPLAUSIBLE_RATE', `"${field}" of ${value} is implausible for ${from}-${to}${expected}`, field);
+  }
+};
+
+const parseOptionalRate = (payload: any, field: string, from: CurrencyCode, to: CurrencyCode): number | undefined => {
+  const value = payload[field];
+  if (value === undefined || value === null || value === '') return undefined;
+  const rate = toNumber(value, field);
+  checkPlausible(rate, from, to, field);
+  return rate;
+};
+
+// Validates a model response against the rate schema:
+// { "officialRate": number | null, "parallelRate": number | null, "summary": string }
+// At least one of the two rates must be present.
+export const parseRateResponse = (text: string, from: CurrencyCode, to: CurrencyCode): ParsedRateResponse => {
+  let payload: any;
+  try {
+    payload = JSON.parse(extractJsonPayload(text));
+  } catch (err) {
+    if (err instanceof RateResponseError) throw err;
+    throw new RateResponseError('INVALID_JSON', `Response JSON could not be parsed: ${(err as Error).message}`);
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    throw new RateResponseError('MISSING_RATE', 'Response JSON is not an object', 'officialRate');
+  }
+
+  const officialRate = parseOptionalRate(payload, 'officialRate', from, to);
+  const parallelRate = parseOptionalRate(payload, 'parallelRate', from, to);
+  if (officialRate === undefined && parallelRate === undefined) {
+    throw new RateResponseError('MISSING_RATE', 'Response JSON has neither "officialRate" nor "parallelRate"', 'officialRate');
+  }
+
+  return {
+    rate: (parallelRate ?? officialRate) as number,
+    officialRate,
+    parallelRate,
+    summary: typeof payload.summary === 'string' ? payload.summary.trim() : ''
+  };
+};
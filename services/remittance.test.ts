@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ExchangeData, RateSnapshot } from '../types';
+import { DEFAULT_REMITTANCE_PROVIDERS, RemittanceProvider, feeCurrencyRate, quoteForReceiveAmount, quoteForSendAmount } from './remittance';
+
+const rate = (value: number): ExchangeData => ({
+  rate: value,
+  fetchedAt: '2026-03-01T00:00:00.000Z',
+  origin: 'live',
+  summary: '',
+  sources: []
+});
+
+const snapshot: RateSnapshot = {
+  takenAt: '2026-03-01T00:00:00.000Z',
+  rates: { 'USD-NGN': rate(1600), 'GBP-NGN': rate(2000) }
+};
+
+const bank: RemittanceProvider = { ...DEFAULT_REMITTANCE_PROVIDERS[0], market: 'parallel', percentFee: 0, rateMarkup: 0 };
+
+describe('feeCurrencyRate', () => {
+  it('prices fees in either currency of the pair from the pair itself', () => {
+    expect(feeCurrencyRate('USD', 'USD', 'NGN', rate(1600), null)).toBe(1);
+    expect(feeCurrencyRate('USD', 'NGN', 'USD', rate(1 / 1600), null)).toBeCloseTo(1600);
+  });
+
+  it('prices other fee currencies from the snapshot, or not at all', () => {
+    expect(feeCurrencyRate('USD', 'GBP', 'NGN', rate(2000), snapshot)).toBeCloseTo(0.8);
+    expect(feeCurrencyRate('USD', 'GBP', 'NGN', rate(2000), null)).toBeUndefined();
+  });
+});
+
+describe('remittance quotes', () => {
+  it('charges a $15 fee as ₦24,000 when sending naira, not ₦15', () => {
+    const data = rate(1 / 1600);
+    const feeRate = feeCurrencyRate(bank.feeCurrency, 'NGN', 'USD', data, null)!;
+    const quote = quoteForSendAmount(bank, data, 160000, feeRate);
+    expect(quote.fee).toBeCloseTo(24000);
+    expect(quote.receiveAmount).toBeCloseTo(85);
+  });
+
+  it('adds the converted fee when solving for a receive amount', () => {
+    const quote = quoteForReceiveAmount(bank, rate(2000), 200000, 0.8)!;
+    expect(quote.sendAmount).toBeCloseTo(112);
+  });
+});
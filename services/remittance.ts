@@ -0,0 +1,133 @@
+import { CurrencyCode, ExchangeData, Market, RateSnapshot } from '../types';
+import { convertBatch } from './batchConversion';
+import { getMarketRate } from './markets';
+import { ONE } from './money';
+
+// What actually arrives after fees and FX markup, for a set of configurable
+// remittance channels (banks, transfer apps, bureaux de change).
+
+export interface RemittanceProvider {
+  id: string;
+  name: string;
+  // Market the provider's own rate is based on
+  market: Market;
+  // Fixed fee per transfer, in feeCurrency; converted into the sending
+  // currency before totals are compared
+  flatFee: number;
+  feeCurrency: CurrencyCode;
+  // Fee as a fraction of the amount sent (0.01 = 1%)
+  percentFee: number;
+  // How far the provider's rate sits below the market rate (0.02 = 2% worse)
+  rateMarkup: number;
+}
+
+export interface RemittanceQuote {
+  providerId: string;
+  sendAmount: number;
+  fee: number; // in the sending currency
+  receiveAmount: number;
+  // Rate the provider applies to the amount left after fees
+  appliedRate: number;
+  // receiveAmount / sendAmount: the all-in rate the sender really gets
+  effectiveRate: number;
+  midMarketRate: number;
+  // Shortfall against converting the full amount at mid-market, as a fraction
+  costPercent: number;
+}
+
+export const DEFAULT_REMITTANCE_PROVIDERS: RemittanceProvider[] = [
+  { id: 'bank', name: 'Bank transfer', market: 'official', flatFee: 15, feeCurrency: 'USD', percentFee: 0.005, rateMarkup: 0.015 },
+  { id: 'app', name: 'Money transfer app', market: 'parallel', flatFee: 2.99, feeCurrency: 'USD', percentFee: 0.01, rateMarkup: 0.005 },
+  { id: 'bdc', name: 'Bureau de change (cash)', market: 'parallel', flatFee: 0, feeCurrency: 'USD', percentFee: 0, rateMarkup: 0.02 },
+];
+
+const PROVIDERS_KEY = 'nairasense:remittance-providers';
+
+export const loadRemittanceProviders = (): RemittanceProvider[] => {
+  try {
+    const raw = localStorage.getItem(PROVIDERS_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    // Providers saved before fees had a currency priced them like the defaults, in dollars
+    return Array.isArray(stored) && stored.length > 0
+      ? stored.map((provider: RemittanceProvider) => ({ ...provider, feeCurrency: provider.feeCurrency ?? 'USD' }))
+      : DEFAULT_REMITTANCE_PROVIDERS;
+  } catch {
+    return DEFAULT_REMITTANCE_PROVIDERS;
+  }
+};
+
+export const saveRemittanceProviders = (providers: RemittanceProvider[]) => {
+  try {
+    localStorage.setItem(PROVIDERS_KEY, JSON.stringify(providers));
+  } catch (err) {
+    console.warn(`Could not persist ${PROVIDERS_KEY}`, err);
+  }
+};
+
+// The market rate a provider starts from; pairs without its market use the headline rate
+const referenceRate = (data: ExchangeData, provider: RemittanceProvider): number =>
+  getMarketRate(data, provider.market) ?? data.rate;
+
+// Units of the sending currency per unit of a fee currency. Fees in either
+// currency of the pair use the pair's own headline rate; any other currency is
+// priced from the snapshot. Undefined when no rate is known.
+export const feeCurrencyRate = (
+  feeCurrency: CurrencyCode,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  data: ExchangeData,
+  snapshot: RateSnapshot | null
+): number | undefined => {
+  if (feeCurrency === from) return 1;
+  if (feeCurrency === to) return data.rate > 0 ? 1 / data.rate : undefined;
+  if (!snapshot) return undefined;
+  // The headline rate is the parallel one wherever it exists
+  return convertBatch([{ line: 1, amount: ONE, from: feeCurrency, to: from }], snapshot, 'parallel')[0].rate;
+};
+
+const appliedRateFor = (provider: RemittanceProvider, data: ExchangeData): number =>
+  referenceRate(data, provider) * (1 - provider.rateMarkup);
+
+const buildQuote = (
+  provider: RemittanceProvider,
+  data: ExchangeData,
+  appliedRate: number,
+  sendAmount: number,
+  fee: number,
+  receiveAmount: number
+): RemittanceQuote => {
+  const effectiveRate = sendAmount > 0 ? receiveAmount / sendAmount : 0;
+  return {
+    providerId: provider.id,
+    sendAmount,
+    fee,
+    receiveAmount,
+    appliedRate,
+    effectiveRate,
+    midMarketRate: data.rate,
+    costPercent: data.rate > 0 && sendAmount > 0 ? 1 - effectiveRate / data.rate : 0,
+  };
+};
+
+// "I send X": fees come off the top, the rest converts at the provider's rate.
+// feeRate is feeCurrencyRate for the provider's fee currency.
+export const quoteForSendAmount = (provider: RemittanceProvider, data: ExchangeData, sendAmount: number, feeRate: number): RemittanceQuote => {
+  const fee = provider.flatFee * feeRate + sendAmount * provider.percentFee;
+  const appliedRate = appliedRateFor(provider, data);
+  const receiveAmount = Math.max(0, sendAmount - fee) * appliedRate;
+  return buildQuote(provider, data, appliedRate, sendAmount, Math.min(fee, sendAmount), receiveAmount);
+};
+
+// "They must receive Y": solves send = (Y / rate + flatFee) / (1 - percentFee).
+export const quoteForReceiveAmount = (
+  provider: RemittanceProvider,
+  data: ExchangeData,
+  receiveAmount: number,
+  feeRate: number
+): RemittanceQuote | undefined => {
+  const appliedRate = appliedRateFor(provider, data);
+  if (!(appliedRate > 0) || provider.percentFee >= 1) return undefined;
+
+  const sendAmount = (receiveAmount / appliedRate + provider.flatFee * feeRate) / (1 - provider.percentFee);
+  return buildQuote(provider, data, appliedRate, sendAmount, sendAmount - receiveAmount / appliedRate, receiveAmount);
+};
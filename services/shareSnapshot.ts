@@ -0,0 +1,53 @@
+import { ExchangeData, SUPPORTED_CURRENCIES } from '../types';
+import { getMarketRate, isMarketAvailable, MARKET_LABELS } from './markets';
+import { convertAmount, formatMoney, formatRate, parseDecimal } from './money';
+import { ORIGIN_LABELS } from './provenance';
+import { ConverterUrlState, DEFAULT_CONVERTER_STATE } from './urlState';
+
+// Plain-text descriptions of a converter state for share sheets and the page
+// title. Shared text is read in other time zones, so timestamps are absolute
+// and in UTC rather than "4 min ago". Link previews use the static Open Graph
+// tags in index.html: crawlers don't run the app, so per-state tags set here
+// would never reach them.
+
+export interface ShareSnapshot {
+  title: string;
+  description: string;
+}
+
+const formatTimestamp = (iso: string): string =>
+  new Intl.DateTimeFormat('en-GB', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  }).format(new Date(iso)) + ' UTC';
+
+export const buildShareSnapshot = (data: ExchangeData, state: ConverterUrlState): ShareSnapshot => {
+  const { from, to } = state;
+  const fromSymbol = SUPPORTED_CURRENCIES[from].symbol;
+  const toSymbol = SUPPORTED_CURRENCIES[to].symbol;
+  // Same fallback as the converter when the chosen market wasn't quoted
+  const market = isMarketAvailable(data, state.market) ? state.market : state.market === 'parallel' ? 'official' : 'parallel';
+  const rate = getMarketRate(data, market) ?? data.rate;
+
+  const amount = parseDecimal(state.amount);
+  const title = amount && state.amount !== DEFAULT_CONVERTER_STATE.amount
+    ? `${fromSymbol}${formatMoney(amount, from, 'en')} = ${toSymbol}${formatMoney(convertAmount(amount, rate, to), to, 'en')} · NairaSense`
+    : `${from}/${to} ${MARKET_LABELS[market].toLowerCase()} rate · NairaSense`;
+
+  const description = [
+    `${MARKET_LABELS[market]} rate: ${toSymbol}${formatRate(rate, to, 'en')} per ${fromSymbol}1`,
+    `as of ${formatTimestamp(data.fetchedAt)}`,
+    `(${ORIGIN_LABELS[data.origin].toLowerCase()})`,
+  ].join(' ');
+
+  return { title, description };
+};
+
+// Title and description on one line each, as pasted into chats
+export const formatShareText = (snapshot: ShareSnapshot): string => `${snapshot.title}\n${snapshot.description}`;
+
+// Keeps the tab title (and so bookmarks) in step with the converter
+export const applyShareTitle = (snapshot: ShareSnapshot) => {
+  document.title = snapshot.title;
+};
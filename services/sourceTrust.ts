@@ -0,0 +1,206 @@
+import { Source, SourceTrust, SourceTrustSummary, TrustTier } from '../types';
+
+// Registry of known rate sources by domain, used to score the pages a grounded
+// search cites. Matching is by domain suffix, so "www.cbn.gov.ng" matches "cbn.gov.ng".
+
+export const TRUST_SCORES: Record<TrustTier, number> = {
+  official: 1,
+  institutional: 0.9,
+  aggregator: 0.75,
+  media: 0.6,
+  unverified: 0.25,
+  blocked: 0,
+};
+
+// A rate needs at least one source scoring this high to count as trusted
+export const TRUSTED_SCORE = 0.5;
+
+export const TRUST_TIER_LABELS: Record<TrustTier, string> = {
+  official: 'Official',
+  institutional: 'Bank / data vendor',
+  aggregator: 'Rate tracker',
+  media: 'Financial press',
+  unverified: 'Unverified',
+  blocked: 'Blocked',
+};
+
+export type SourceRegistry = Record<string, TrustTier>;
+
+export const DEFAULT_SOURCE_REGISTRY: SourceRegistry = {
+  // Central banks and official FX windows
+  'cbn.gov.ng': 'official',
+  'fmdqgroup.com': 'official',
+  'federalreserve.gov': 'official',
+  'bankofengland.co.uk': 'official',
+  'ecb.europa.eu': 'official',
+  'bankofcanada.ca': 'official',
+  'bog.gov.gh': 'official',
+  'resbank.co.za': 'official',
+  'centralbank.go.ke': 'official',
+  'cbe.org.eg': 'official',
+  'bceao.int': 'official',
+  'beac.int': 'official',
+  'centralbank.ae': 'official',
+  'sama.gov.sa': 'official',
+  'pbc.gov.cn': 'official',
+  'rbi.org.in': 'official',
+  'snb.ch': 'official',
+  'rba.gov.au': 'official',
+  // Banks, FX data vendors and wire services
+  'reuters.com': 'institutional',
+  'bloomberg.com': 'institutional',
+  'ft.com': 'institutional',
+  'xe.com': 'institutional',
+  'wise.com': 'institutional',
+  'oanda.com': 'institutional',
+  'investing.com': 'institutional',
+  'gtcoplc.com': 'institutional',
+  'gtbank.com': 'institutional',
+  'zenithbank.com': 'institutional',
+  'accessbankplc.com': 'institutional',
+  'firstbanknigeria.com': 'institutional',
+  'ubagroup.com': 'institutional',
+  'stanbicibtc.com': 'institutional',
+  // Parallel-market and BDC rate trackers
+  'abokifx.com': 'aggregator',
+  'nairatoday.com': 'aggregator',
+  'ngnrates.com': 'aggregator',
+  'nairatodollar.com': 'aggregator',
+  'aboki.africa': 'aggregator',
+  // Financial press
+  'nairametrics.com': 'media',
+  'businessday.ng': 'media',
+  'punchng.com': 'media',
+  'premiumtimesng.com': 'media',
+  'thecable.ng': 'media',
+  'vanguardngr.com': 'media',
+  'guardian.ng': 'media',
+  'cnbcafrica.com': 'media',
+  'bbc.com': 'media',
+  // Forums, social media and self-publishing platforms
+  'nairaland.com': 'blocked',
+  'facebook.com': 'blocked',
+  'x.com': 'blocked',
+  'twitter.com': 'blocked',
+  'tiktok.com': 'blocked',
+  'instagram.com': 'blocked',
+  'youtube.com': 'blocked',
+  'reddit.com': 'blocked',
+  'quora.com': 'blocked',
+  'medium.com': 'blocked',
+  'blogspot.com': 'blocked',
+  'wordpress.com': 'blocked',
+};
+
+const isTrustTier = (value: string): value is TrustTier => value in TRUST_SCORES;
+
+const normaliseDomain = (domain: string) => domain.trim().toLowerCase().replace(/^www\./, '');
+
+// Extends the default registry with operator lists. The allowlist takes
+// "domain" (treated as a rate tracker) or "domain=tier" entries, comma separated;
+// every blocklist entry is blocked.
+export const createSourceRegistry = ({ allow = '', block = '' }: { allow?: string; block?: string } = {}): SourceRegistry => {
+  const registry: SourceRegistry = { ...DEFAULT_SOURCE_REGISTRY };
+
+  allow.split(',').filter(entry => entry.trim()).forEach(entry => {
+    const [domain, tier = 'aggregator'] = entry.split('=').map(part => part.trim());
+    if (!isTrustTier(tier)) {
+      console.warn(`Ignoring source allowlist entry "${entry.trim()}": unknown tier "${tier}"`);
+      return;
+    }
+    registry[normaliseDomain(domain)] = tier;
+  });
+  block.split(',').filter(entry => entry.trim()).forEach(domain => {
+    registry[normaliseDomain(domain)] = 'blocked';
+  });
+
+  return registry;
+};
+
+// Grounding citations link through a Google redirect; the page's own domain is then only in the title.
+const GROUNDING_REDIRECT_HOST = 'vertexaisearch.cloud.google.com';
+const DOMAIN_PATTERN = /^(?:[a-z0-9-]+\.)+[a-z]{2,}$/;
+
+export const sourceDomain = (source: Source): string => {
+  let host = '';
+  try {
+    host = normaliseDomain(new URL(source.uri).hostname);
+  } catch {
+    // Not a URL; fall back to the title below
+  }
+  if (host && host !== GROUNDING_REDIRECT_HOST) return host;
+  const title = normaliseDomain(source.title);
+  return DOMAIN_PATTERN.test(title) ? title : host;
+};
+
+const lookupTier = (domain: string, registry: SourceRegistry): TrustTier => {
+  // Most specific match first: "markets.ft.com", then "ft.com"
+  const labels = domain.split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const tier = registry[labels.slice(i).join('.')];
+    if (tier) return tier;
+  }
+  return 'unverified';
+};
+
+export const scoreSource = (source: Source, registry: SourceRegistry = DEFAULT_SOURCE_REGISTRY): SourceTrust => {
+  const domain = sourceDomain(source);
+  const tier = domain ? lookupTier(domain, registry) : 'unverified';
+  return { tier, score: TRUST_SCORES[tier], domain };
+};
+
+// Scores every source, drops blocked ones and orders the rest most trusted first
+export const applySourceTrust = (sources: Source[], registry: SourceRegistry = DEFAULT_SOURCE_REGISTRY): Source[] =>
+  sources
+    .map(source => ({ ...source, trust: scoreSource(source, registry) }))
+    .filter(source => source.trust.tier !== 'blocked')
+    .sort((a, b) => b.trust.score - a.trust.score);
+
+export const summariseSourceTrust = (sources: Source[]): SourceTrustSummary => {
+  const score = Math.max(0, ...sources.map(source => source.trust?.score ?? 0));
+  return { score, lowTrust: score < TRUSTED_SCORE };
+};
+
+// --- Per-source quoted rates ---
+
+// Subset of Gemini's groundingSupports: which answer text each citation backs
+export interface GroundingSupport {
+  segment?: { text?: string };
+  groundingChunkIndices?: number[];
+}
+
+// Numbers in a cited sentence further than this from every parsed rate are
+// something else (dates, percentages, volumes).
+const QUOTE_TOLERANCE = 0.3;
+
+const NUMBER_PATTERN = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g;
+
+// For each source (by grounding chunk index), the number in the answer text it
+// was cited for that is closest to one of the parsed market rates.
+export const extractQuotedRates = (supports: GroundingSupport[], referenceRates: number[]): Map<number, number> => {
+  const references = referenceRates.filter(rate => rate > 0);
+  const quoted = new Map<number, { rate: number; distance: number }>();
+
+  supports.forEach(support => {
+    const numbers = (support.segment?.text?.match(NUMBER_PATTERN) || []).map(text => parseFloat(text.replace(/,/g, '')));
+    numbers.forEach(rate => {
+      const distance = Math.min(...references.map(ref => Math.abs(rate - ref) / ref));
+      if (!(distance <= QUOTE_TOLERANCE)) return;
+      (support.groundingChunkIndices || []).forEach(index => {
+        const current = quoted.get(index);
+        if (!current || distance < current.distance) quoted.set(index, { rate, distance });
+      });
+    });
+  });
+
+  return new Map([...quoted].map(([index, { rate }]) => [index, rate]));
+};
+
+export class LowTrustSourcesError extends Error {
+  constructor(public domains: string[]) {
+    super(domains.length
+      ? `Rate is only backed by low-trust sources: ${domains.join(', ')}`
+      : 'Rate is not backed by any source');
+    this.name = 'LowTrustSourcesError';
+  }
+}
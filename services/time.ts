@@ -0,0 +1,9 @@
+// "just now", "4 min ago", "3 h ago", "2 d ago"
+export const formatRelativeAge = (iso: string, now: number = Date.now()): string => {
+  const minutes = Math.floor((now - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONVERTER_STATE, readUrlState } from './urlState';
+
+describe('readUrlState', () => {
+  it('reads a shared conversion', () => {
+    expect(readUrlState('?from=ngn&to=GBP&amount=500000.50&market=official')).toEqual({
+      from: 'NGN',
+      to: 'GBP',
+      amount: '500000.50',
+      market: 'official',
+    });
+  });
+
+  it.each(['1e3000000', '1'.repeat(16), '0.12345678901', '-5', '1,000', '0', 'abc'])(
+    'falls back to the default amount for %s',
+    amount => {
+      expect(readUrlState(`?amount=${amount}`).amount).toBe(DEFAULT_CONVERTER_STATE.amount);
+    }
+  );
+});
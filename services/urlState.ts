@@ -0,0 +1,65 @@
+import { CurrencyCode, Market } from '../types';
+import { isCurrencyCode } from './currencyCatalog';
+import { parseDecimal, toDecimalString } from './money';
+
+// Converter state mirrored in the query string, so "?from=NGN&to=GBP&amount=500000"
+// can be bookmarked, shared and navigated with back/forward.
+
+export interface ConverterUrlState {
+  from: CurrencyCode;
+  to: CurrencyCode;
+  amount: string;
+  market: Market;
+}
+
+export const DEFAULT_CONVERTER_STATE: ConverterUrlState = {
+  from: 'USD',
+  to: 'NGN',
+  amount: '1',
+  market: 'parallel',
+};
+
+const isMarket = (value: string): value is Market => value === 'official' || value === 'parallel';
+
+// Amounts in links are plain decimals as buildUrlSearch writes them; anything
+// longer, signed or in exponent notation is ignored rather than parsed
+const AMOUNT_PARAM_PATTERN = /^\d{1,15}(?:\.\d{1,10})?$/;
+
+// Unknown or malformed parameters fall back to the defaults one by one
+export const readUrlState = (search: string): ConverterUrlState => {
+  const params = new URLSearchParams(search);
+  const from = params.get('from')?.toUpperCase() ?? '';
+  const to = params.get('to')?.toUpperCase() ?? '';
+  const market = params.get('market') ?? '';
+  const amountParam = params.get('amount') ?? '';
+  const amount = AMOUNT_PARAM_PATTERN.test(amountParam) ? parseDecimal(amountParam) : null;
+
+  return {
+    from: isCurrencyCode(from) ? from : DEFAULT_CONVERTER_STATE.from,
+    to: isCurrencyCode(to) ? to : DEFAULT_CONVERTER_STATE.to,
+    amount: amount && amount.units > 0n ? toDecimalString(amount) : DEFAULT_CONVERTER_STATE.amount,
+    market: isMarket(market) ? market : DEFAULT_CONVERTER_STATE.market,
+  };
+};
+
+// Keeps any unrelated parameters already in the URL and omits a default amount
+export const buildUrlSearch = (state: ConverterUrlState, currentSearch: string = ''): string => {
+  const params = new URLSearchParams(currentSearch);
+  params.set('from', state.from);
+  params.set('to', state.to);
+  const amount = parseDecimal(state.amount);
+  if (amount && amount.units > 0n && state.amount !== DEFAULT_CONVERTER_STATE.amount) {
+    params.set('amount', toDecimalString(amount));
+  } else {
+    params.delete('amount');
+  }
+  params.set('market', state.market);
+  return `?${params.toString()}`;
+};
+
+export const buildShareUrl = (state: ConverterUrlState, base: string = window.location.href): string => {
+  const url = new URL(base);
+  url.search = buildUrlSearch(state);
+  url.hash = '';
+  return url.toString();
+};
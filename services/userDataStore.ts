@@ -0,0 +1,207 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ConversionRecord, CurrencyCode, Market, RateOrigin, UserPreferences, WatchlistEntry } from '../types';
+import { isCurrencyCode } from './currencyCatalog';
+import { MAX_HISTORY_ENTRIES } from './conversionHistory';
+
+// Saved pairs, defaults and conversion history. Anonymous visitors keep them
+// in localStorage; signed-in users in Supabase, where row level security
+// limits every row to its owner.
+
+export interface UserDataStore {
+  loadPreferences: () => Promise<UserPreferences | null>;
+  savePreferences: (preferences: UserPreferences) => Promise<void>;
+  listWatchlist: () => Promise<WatchlistEntry[]>;
+  addToWatchlist: (entry: WatchlistEntry) => Promise<void>;
+  removeFromWatchlist: (from: CurrencyCode, to: CurrencyCode) => Promise<void>;
+  // Newest first, at most MAX_HISTORY_ENTRIES
+  listHistory: () => Promise<ConversionRecord[]>;
+  recordConversion: (record: ConversionRecord) => Promise<void>;
+  // Adds records done elsewhere; ids already present are skipped
+  importHistory: (records: ConversionRecord[]) => Promise<void>;
+  clearHistory: () => Promise<void>;
+}
+
+const PREFERENCES_KEY = 'nairasense:preferences';
+const WATCHLIST_KEY = 'nairasense:watchlist';
+const HISTORY_KEY = 'nairasense:conversion-history';
+
+const samePair = (entry: WatchlistEntry, from: CurrencyCode, to: CurrencyCode) => entry.from === from && entry.to === to;
+
+export const createLocalUserDataStore = (storage: Storage = localStorage): UserDataStore => {
+  const read = <T>(key: string, fallback: T): T => {
+    try {
+      const raw = storage.getItem(key);
+      return raw ? JSON.parse(raw) : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+  const write = (key: string, value: unknown) => {
+    try {
+      storage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+      console.warn(`Could not persist ${key}`, err);
+    }
+  };
+
+  const readWatchlist = () =>
+    read<WatchlistEntry[]>(WATCHLIST_KEY, []).filter(e => isCurrencyCode(e?.from) && isCurrencyCode(e?.to));
+
+  return {
+    loadPreferences: async () => read<UserPreferences | null>(PREFERENCES_KEY, null),
+    savePreferences: async (preferences) => write(PREFERENCES_KEY, preferences),
+    listWatchlist: async () => readWatchlist(),
+    addToWatchlist: async (entry) => {
+      const watchlist = readWatchlist();
+      if (!watchlist.some(e => samePair(e, entry.from, entry.to))) write(WATCHLIST_KEY, [...watchlist, entry]);
+    },
+    removeFromWatchlist: async (from, to) => write(WATCHLIST_KEY, readWatchlist().filter(e => !samePair(e, from, to))),
+    listHistory: async () => read<ConversionRecord[]>(HISTORY_KEY, []),
+    recordConversion: async (record) =>
+      write(HISTORY_KEY, [record, ...read<ConversionRecord[]>(HISTORY_KEY, [])].slice(0, MAX_HISTORY_ENTRIES)),
+    importHistory: async (records) => {
+      const history = read<ConversionRecord[]>(HISTORY_KEY, []);
+      const known = new Set(history.map(r => r.id));
+      const merged = [...history, ...records.filter(r => !known.has(r.id))]
+        .sort((a, b) => b.convertedAt.localeCompare(a.convertedAt));
+      write(HISTORY_KEY, merged.slice(0, MAX_HISTORY_ENTRIES));
+    },
+    clearHistory: async () => storage.removeItem(HISTORY_KEY)
+  };
+};
+
+// Anonymous visitors' store; also the source when migrating into an account
+export const localUserDataStore = createLocalUserDataStore();
+
+const PREFERENCES_TABLE = 'user_preferences';
+const WATCHLIST_TABLE = 'watchlist_pairs';
+const HISTORY_TABLE = 'conversion_history';
+
+interface WatchlistRow {
+  from_currency: CurrencyCode;
+  to_currency: CurrencyCode;
+  added_at: string;
+}
+
+interface HistoryRow {
+  id: string;
+  from_currency: CurrencyCode;
+  to_currency: CurrencyCode;
+  market: Market;
+  amount: string | number;
+  rate: number;
+  result: string | number;
+  rate_origin: RateOrigin;
+  converted_at: string;
+}
+
+const toHistoryRow = (record: ConversionRecord, userId: string) => ({
+  id: record.id,
+  user_id: userId,
+  from_currency: record.from,
+  to_currency: record.to,
+  market: record.market,
+  amount: record.amount,
+  rate: record.rate,
+  result: record.result,
+  rate_origin: record.rateOrigin,
+  converted_at: record.convertedAt
+});
+
+export const createSupabaseUserDataStore = (client: SupabaseClient, userId: string): UserDataStore => ({
+  loadPreferences: async () => {
+    const { data, error } = await client.from(PREFERENCES_TABLE).select('*').eq('user_id', userId).maybeSingle();
+    if (error) throw error;
+    return data ? { defaultFrom: data.default_from, defaultTo: data.default_to, defaultMarket: data.default_market } : null;
+  },
+  savePreferences: async (preferences) => {
+    const { error } = await client.from(PREFERENCES_TABLE).upsert({
+      user_id: userId,
+      default_from: preferences.defaultFrom,
+      default_to: preferences.defaultTo,
+      default_market: preferences.defaultMarket,
+      updated_at: new Date().toISOString()
+    });
+    if (error) throw error;
+  },
+  listWatchlist: async () => {
+    const { data, error } = await client
+      .from(WATCHLIST_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('added_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map((row: WatchlistRow) => ({ from: row.from_currency, to: row.to_currency, addedAt: row.added_at }));
+  },
+  addToWatchlist: async (entry) => {
+    const { error } = await client.from(WATCHLIST_TABLE).upsert(
+      { user_id: userId, from_currency: entry.from, to_currency: entry.to, added_at: entry.addedAt },
+      { onConflict: 'user_id,from_currency,to_currency', ignoreDuplicates: true }
+    );
+    if (error) throw error;
+  },
+  removeFromWatchlist: async (from, to) => {
+    const { error } = await client
+      .from(WATCHLIST_TABLE)
+      .delete()
+      .eq('user_id', userId)
+      .eq('from_currency', from)
+      .eq('to_currency', to);
+    if (error) throw error;
+  },
+  listHistory: async () => {
+    const { data, error } = await client
+      .from(HISTORY_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('converted_at', { ascending: false })
+      .limit(MAX_HISTORY_ENTRIES);
+    if (error) throw error;
+    return (data || []).map((row: HistoryRow) => ({
+      id: row.id,
+      from: row.from_currency,
+      to: row.to_currency,
+      market: row.market,
+      amount: String(row.amount),
+      rate: Number(row.rate),
+      result: String(row.result),
+      rateOrigin: row.rate_origin,
+      convertedAt: row.converted_at
+    }));
+  },
+  recordConversion: async (record) => {
+    const { error } = await client.from(HISTORY_TABLE).insert(toHistoryRow(record, userId));
+    if (error) throw error;
+  },
+  importHistory: async (records) => {
+    if (records.length === 0) return;
+    const { error } = await client
+      .from(HISTORY_TABLE)
+      .upsert(records.map(record => toHistoryRow(record, userId)), { ignoreDuplicates: true });
+    if (error) throw error;
+  },
+  clearHistory: async () => {
+    const { error } = await client.from(HISTORY_TABLE).delete().eq('user_id', userId);
+    if (error) throw error;
+  }
+});
+
+// Moves anonymous data into a freshly signed-in account. Account preferences
+// win over local ones and watchlists are merged. Local data is only cleared
+// once everything was copied; record ids are UUIDs, so a retry after a
+// failure doesn't duplicate history.
+export const migrateLocalData = async (local: UserDataStore, account: UserDataStore): Promise<void> => {
+  const [preferences, accountPreferences, watchlist, history] = await Promise.all([
+    local.loadPreferences(),
+    account.loadPreferences(),
+    local.listWatchlist(),
+    local.listHistory()
+  ]);
+
+  if (preferences && !accountPreferences) await account.savePreferences(preferences);
+  for (const entry of watchlist) await account.addToWatchlist(entry);
+  await account.importHistory(history);
+
+  await local.clearHistory();
+  for (const entry of watchlist) await local.removeFromWatchlist(entry.from, entry.to);
+};
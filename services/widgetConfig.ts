@@ -0,0 +1,34 @@
+import { ColorTheme, CurrencyCode, Market } from '../types';
+import { isCurrencyCode } from './currencyCatalog';
+
+// Configuration for the embeddable rate widget, read from widget.html's query
+// string: /widget.html?pair=GBP-NGN&market=official&theme=dark
+
+export interface WidgetConfig {
+  from: CurrencyCode;
+  to: CurrencyCode;
+  market: Market;
+  theme: ColorTheme;
+}
+
+export const DEFAULT_WIDGET_CONFIG: WidgetConfig = {
+  from: 'USD',
+  to: 'NGN',
+  market: 'parallel',
+  theme: 'light',
+};
+
+export const readWidgetConfig = (search: string): WidgetConfig => {
+  const params = new URLSearchParams(search);
+  const [from = '', to = ''] = (params.get('pair') ?? '').toUpperCase().split('-');
+  const market = params.get('market');
+  const theme = params.get('theme');
+
+  const validPair = isCurrencyCode(from) && isCurrencyCode(to) && from !== to;
+  return {
+    from: validPair ? from : DEFAULT_WIDGET_CONFIG.from,
+    to: validPair ? to : DEFAULT_WIDGET_CONFIG.to,
+    market: market === 'official' || market === 'parallel' ? market : DEFAULT_WIDGET_CONFIG.market,
+    theme: theme === 'dark' || theme === 'light' ? theme : DEFAULT_WIDGET_CONFIG.theme,
+  };
+};
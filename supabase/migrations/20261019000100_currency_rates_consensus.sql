@@ -0,0 +1,4 @@
+-- Consensus metadata for the cached rate of each pair.
+alter table currency_rates
+  add column if not exists confidence numeric,
+  add column if not exists consensus jsonb;
@@ -0,0 +1,21 @@
+-- Append-only log of every fetched quote. currency_rates keeps only the latest row per pair.
+create table if not exists currency_rate_history (
+  id bigint generated always as identity primary key,
+  pair text not null,
+  rate numeric not null,
+  parallel_rate numeric,
+  sources jsonb not null default '[]'::jsonb,
+  provider text,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists currency_rate_history_pair_recorded_at_idx
+  on currency_rate_history (pair, recorded_at);
+
+alter table currency_rate_history enable row level security;
+
+create policy "History is readable by everyone"
+  on currency_rate_history for select using (true);
+
+create policy "History is append-only"
+  on currency_rate_history for insert with check (true);
@@ -0,0 +1,10 @@
+-- Official (CBN) and parallel market rates are stored separately, each with its own timestamp and sources.
+alter table currency_rates
+  add column if not exists official_rate numeric,
+  add column if not exists official_updated_at timestamptz,
+  add column if not exists official_sources jsonb,
+  add column if not exists parallel_updated_at timestamptz,
+  add column if not exists parallel_sources jsonb;
+
+alter table currency_rate_history
+  add column if not exists official_rate numeric;
@@ -0,0 +1,16 @@
+-- User-defined rate alerts, used when ALERT_STORE=supabase.
+create table if not exists rate_alerts (
+  id uuid primary key,
+  owner_id text not null,
+  from_currency text not null,
+  to_currency text not null,
+  market text not null check (market in ('official', 'parallel')),
+  condition text not null check (condition in ('above', 'below', 'percent-change')),
+  threshold numeric not null,
+  baseline_rate numeric,
+  created_at timestamptz not null default now(),
+  last_triggered_at timestamptz,
+  enabled boolean not null default true
+);
+
+create index if not exists rate_alerts_owner_id_idx on rate_alerts (owner_id);
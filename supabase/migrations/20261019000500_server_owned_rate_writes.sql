@@ -0,0 +1,9 @@
+-- Rates are now written only by the rate server using the service-role key,
+-- which bypasses row level security. Browsers keep read access.
+alter table currency_rates enable row level security;
+
+drop policy if exists "Rates are readable by everyone" on currency_rates;
+create policy "Rates are readable by everyone"
+  on currency_rates for select using (true);
+
+drop policy if exists "History is append-only" on currency_rate_history;
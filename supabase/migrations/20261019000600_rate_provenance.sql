@@ -0,0 +1,4 @@
+-- Which provider (and model, for AI providers) produced the cached rate.
+alter table currency_rates
+  add column if not exists provider text,
+  add column if not exists model text;
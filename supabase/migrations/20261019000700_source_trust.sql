@@ -0,0 +1,4 @@
+-- Overall trust in the sources behind the cached rate ({ score, lowTrust }).
+-- Per-source tiers and quoted rates live inside the existing sources columns.
+alter table currency_rates
+  add column if not exists source_trust jsonb;
@@ -0,0 +1,9 @@
+-- Latest structured market analysis per canonical pair, written and read only
+-- by the rate server (service role). No policies: browsers have no access.
+create table if not exists market_analyses (
+  pair text primary key,
+  analysis jsonb not null,
+  generated_at timestamptz not null
+);
+
+alter table market_analyses enable row level security;
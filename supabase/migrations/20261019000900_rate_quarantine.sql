@@ -0,0 +1,21 @@
+-- Provider quotes that failed the server's sanity checks (implausible value,
+-- sudden jump from recent history, official/parallel contradiction). They are
+-- never served; pending rows form the review queue. Written and read only by
+-- the rate server (service role); no policies, so browsers have no access.
+create table if not exists rate_quarantine (
+  id bigint generated always as identity primary key,
+  pair text not null,
+  candidate jsonb not null,
+  issues jsonb not null,
+  reason text not null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz,
+  reviewed_by text,
+  review_note text
+);
+
+create index if not exists rate_quarantine_status_created_at_idx
+  on rate_quarantine (status, created_at);
+
+alter table rate_quarantine enable row level security;
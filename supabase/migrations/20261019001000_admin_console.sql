@@ -0,0 +1,50 @@
+-- Admin console tables. All are written and read only by the rate server
+-- (service role) after it has checked the caller is an admin; no policies,
+-- so browsers have no direct access.
+
+-- Manual rates pinned per canonical pair. Active while cleared_at is null and
+-- expires_at is in the future; the server keeps at most one active per pair.
+create table if not exists rate_overrides (
+  id bigint generated always as identity primary key,
+  pair text not null,
+  official_rate numeric check (official_rate > 0),
+  parallel_rate numeric check (parallel_rate > 0),
+  note text not null,
+  expires_at timestamptz not null,
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  cleared_at timestamptz,
+  cleared_by text,
+  check (official_rate is not null or parallel_rate is not null)
+);
+
+create index if not exists rate_overrides_active_idx
+  on rate_overrides (pair, expires_at) where cleared_at is null;
+
+alter table rate_overrides enable row level security;
+
+-- Edits to the server's built-in emergency rate table; a row replaces the
+-- built-in rate for its pair, deleting it restores the built-in one.
+create table if not exists emergency_rates (
+  pair text primary key,
+  rate numeric not null check (rate > 0),
+  updated_at timestamptz not null default now(),
+  updated_by text not null
+);
+
+alter table emergency_rates enable row level security;
+
+-- Who changed what. Append-only from the server's side.
+create table if not exists admin_audit_log (
+  id bigint generated always as identity primary key,
+  actor text not null,
+  action text not null,
+  pair text,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_at_idx
+  on admin_audit_log (created_at desc);
+
+alter table admin_audit_log enable row level security;
@@ -0,0 +1,50 @@
+-- Per-user data for signed-in visitors. Browsers read and write these
+-- directly with the anon key; row level security limits every row to the
+-- user who owns it.
+
+create table if not exists user_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  default_from text not null,
+  default_to text not null,
+  default_market text not null check (default_market in ('official', 'parallel')),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists watchlist_pairs (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  from_currency text not null,
+  to_currency text not null,
+  added_at timestamptz not null default now(),
+  primary key (user_id, from_currency, to_currency)
+);
+
+-- Conversions at the rate of the moment; ids are generated in the browser so
+-- anonymous history can be migrated without duplicates.
+create table if not exists conversion_history (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  from_currency text not null,
+  to_currency text not null,
+  market text not null check (market in ('official', 'parallel')),
+  amount numeric not null check (amount > 0),
+  rate numeric not null check (rate > 0),
+  result numeric not null,
+  rate_origin text not null,
+  converted_at timestamptz not null default now()
+);
+
+create index if not exists conversion_history_user_idx
+  on conversion_history (user_id, converted_at desc);
+
+alter table user_preferences enable row level security;
+alter table watchlist_pairs enable row level security;
+alter table conversion_history enable row level security;
+
+create policy "Users manage their preferences" on user_preferences
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their watchlist" on watchlist_pairs
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their conversion history" on conversion_history
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
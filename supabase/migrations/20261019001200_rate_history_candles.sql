@@ -0,0 +1,59 @@
+-- OHLC candles for the rate chart and market analysis, bucketed in the
+-- database so long windows don't have to be fetched row by row. Buckets are
+-- aligned to the Unix epoch, like bucketHistory in services/rateHistory.ts;
+-- pairs without a parallel market count their headline rate as official.
+create or replace function rate_history_candles(
+  p_pair text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket_seconds integer
+)
+returns table (
+  bucket_start timestamptz,
+  rate_open numeric,
+  rate_high numeric,
+  rate_low numeric,
+  rate_close numeric,
+  official_open numeric,
+  official_high numeric,
+  official_low numeric,
+  official_close numeric,
+  parallel_open numeric,
+  parallel_high numeric,
+  parallel_low numeric,
+  parallel_close numeric,
+  quote_count bigint
+)
+language sql
+stable
+as $$
+  with entries as (
+    select
+      to_timestamp(floor(extract(epoch from recorded_at) / p_bucket_seconds) * p_bucket_seconds) as bucket_start,
+      recorded_at,
+      id,
+      rate,
+      coalesce(official_rate, case when parallel_rate is null then rate end) as official_rate,
+      parallel_rate
+    from currency_rate_history
+    where pair = p_pair and recorded_at between p_from and p_to
+  )
+  select
+    bucket_start,
+    (array_agg(rate order by recorded_at, id))[1],
+    max(rate),
+    min(rate),
+    (array_agg(rate order by recorded_at desc, id desc))[1],
+    (array_agg(official_rate order by recorded_at, id) filter (where official_rate is not null))[1],
+    max(official_rate),
+    min(official_rate),
+    (array_agg(official_rate order by recorded_at desc, id desc) filter (where official_rate is not null))[1],
+    (array_agg(parallel_rate order by recorded_at, id) filter (where parallel_rate is not null))[1],
+    max(parallel_rate),
+    min(parallel_rate),
+    (array_agg(parallel_rate order by recorded_at desc, id desc) filter (where parallel_rate is not null))[1],
+    count(*)
+  from entries
+  group by bucket_start
+  order by bucket_start;
+$$;
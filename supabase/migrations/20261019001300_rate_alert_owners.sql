@@ -0,0 +1,16 @@
+-- rate_alerts was reachable with the public anon key and filtered by owner
+-- only in the browser, so any visitor could read or change anyone's alerts.
+-- Alerts now belong to Supabase Auth users and row level security enforces it.
+
+-- Rows owned by per-browser ids can't be attributed to a user
+delete from rate_alerts where owner_id not in (select id::text from auth.users);
+
+alter table rate_alerts
+  alter column owner_id type uuid using owner_id::uuid,
+  alter column owner_id set default auth.uid(),
+  add constraint rate_alerts_owner_id_fkey foreign key (owner_id) references auth.users (id) on delete cascade;
+
+alter table rate_alerts enable row level security;
+
+create policy "Users manage their alerts" on rate_alerts
+  for all using (auth.uid() = owner_id) with check (auth.uid() = owner_id);
@@ -0,0 +1,3 @@
+-- The rate each alert saw last, so level alerts only fire on a real crossing
+-- rather than on every page load while the rate stays past the level.
+alter table rate_alerts add column if not exists last_observed_rate numeric;
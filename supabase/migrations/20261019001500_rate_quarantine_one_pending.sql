@@ -0,0 +1,17 @@
+-- At most one pending review entry per pair. The rate server stops refreshing
+-- a pair while its entry is open; the index also stops concurrent servers from
+-- queueing the same move twice. Existing duplicates keep their oldest row.
+update rate_quarantine q
+set status = 'rejected',
+    reviewed_at = now(),
+    review_note = 'Duplicate of an earlier pending entry'
+where q.status = 'pending'
+  and exists (
+    select 1 from rate_quarantine earlier
+    where earlier.pair = q.pair
+      and earlier.status = 'pending'
+      and (earlier.created_at, earlier.id) < (q.created_at, q.id)
+  );
+
+create unique index if not exists rate_quarantine_one_pending_per_pair_idx
+  on rate_quarantine (pair) where status = 'pending';
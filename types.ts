@@ -1,28 +1,314 @@
 export interface ExchangeData {
+  // Headline rate: the parallel rate when one exists, otherwise the official rate
   rate: number;
-  parallelRate?: number;
-  lastUpdated: string;
+  officialRate?: MarketRate;
+  parallelRate?: MarketRate;
+  // When the underlying quote was obtained (ISO timestamp), not when it was served
+  fetchedAt: string;
+  origin: RateOrigin;
   summary: string;
   sources: Source[];
+  provider?: string;
+  // Model behind an AI provider's quote, e.g. 'gemini-3-flash-preview'
+  model?: string;
+  // 0..1, derived from how many sources agreed and how closely
+  confidence?: number;
+  consensus?: RateConsensus;
+  // Set when the rate was triangulated from other pairs rather than quoted directly
+  derivation?: RateDerivation;
+  sourceTrust?: SourceTrustSummary;
+}
+
+// Where a served rate came from:
+// live      - fetched from providers for this request
+// db-fresh  - stored quote still within the cache window
+// db-stale  - stored quote past the cache window, served because providers failed
+// emergency - built-in estimate, used when nothing else is available
+// derived   - cross rate triangulated from other pairs' quotes
+// override  - pinned manually by an admin
+export type RateOrigin = 'live' | 'db-fresh' | 'db-stale' | 'emergency' | 'derived' | 'override';
+
+// Every stored rate at one moment, so a batch of conversions uses consistent rates
+export interface RateSnapshot {
+  takenAt: string; // ISO timestamp
+  rates: Record<string, ExchangeData>; // keyed by pair id, e.g. "USD-NGN"
+}
+
+// Flat, read-only view of a stored rate for third parties (GET /public/rates).
+// Deliberately omits summaries and sources, which are ours to present.
+export interface PublicRate {
+  pair: string; // e.g. "USD-NGN"
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number;
+  officialRate?: number;
+  parallelRate?: number;
+  fetchedAt: string; // ISO timestamp
+  origin: RateOrigin;
+}
+
+export interface RateDerivation {
+  via: CurrencyCode;
+  legs: string[]; // e.g. ['EUR-NGN', 'NGN-GBP']
+}
+
+export type Market = 'official' | 'parallel';
+
+export type ColorTheme = 'light' | 'dark';
+
+export interface MarketRate {
+  rate: number;
+  updatedAt: string; // ISO timestamp
+  sources: Source[];
+}
+
+export interface RateConsensus {
+  rate: number;
+  // (max - min) / rate across the quotes that were kept
+  spread: number;
+  quoteCount: number;
+  rejectedCount: number;
 }
 
 export interface Source {
   title: string;
   uri: string;
+  trust?: SourceTrust;
+  // Rate this source was cited for in the grounded answer, when one could be extracted
+  quotedRate?: number;
+}
+
+// official      - central banks and the official FX window (CBN, FMDQ)
+// institutional - banks, FX data vendors and wire services
+// aggregator    - established BDC / parallel-market rate trackers
+// media         - financial press
+// unverified    - not in the registry
+// blocked       - known-unreliable (forums, social media, content farms); never used
+export type TrustTier = 'official' | 'institutional' | 'aggregator' | 'media' | 'unverified' | 'blocked';
+
+export interface SourceTrust {
+  tier: TrustTier;
+  score: number; // 0..1
+  domain: string;
+}
+
+// How well a rate is backed by its sources, as a whole
+export interface SourceTrustSummary {
+  // Score of the most trusted source
+  score: number;
+  // True when no source reaches the trusted threshold (including no sources at all)
+  lowTrust: boolean;
+}
+
+export const CURRENCY_CODES = [
+  'USD', 'NGN', 'EUR', 'GBP', 'CAD',
+  'GHS', 'ZAR', 'KES', 'EGP', 'MAD', 'UGX', 'TZS', 'RWF', 'ZMW', 'XOF', 'XAF',
+  'AED', 'SAR', 'CNY', 'INR', 'JPY', 'CHF', 'AUD',
+] as const;
+
+export type CurrencyCode = typeof CURRENCY_CODES[number];
+
+export type CurrencyRegion = 'Africa' | 'Americas' | 'Europe' | 'Middle East' | 'Asia' | 'Oceania';
+
+// ISO 4217 metadata for each supported currency
+export interface CurrencyInfo {
+  name: string;
+  flag: string;
+  symbol: string;
+  minorUnits: number; // ISO 4217 exponent, e.g. 2 for cents/kobo
+  locale: string; // BCP 47 locale used for formatting amounts
+  region: CurrencyRegion;
 }
 
-export type CurrencyCode = 'USD' | 'NGN' | 'EUR' | 'GBP' | 'CAD';
+const flag = (country: string) => `https://flagcdn.com/${country}.svg`;
 
-export const SUPPORTED_CURRENCIES: Record<CurrencyCode, { name: string; flag: string; symbol: string }> = {
-  USD: { name: 'US Dollar', flag: 'https://flagcdn.com/us.svg', symbol: '$' },
-  NGN: { name: 'Nigerian Naira', flag: 'https://flagcdn.com/ng.svg', symbol: '₦' },
-  EUR: { name: 'Euro', flag: 'https://flagcdn.com/eu.svg', symbol: '€' },
-  GBP: { name: 'British Pound', flag: 'https://flagcdn.com/gb.svg', symbol: '£' },
-  CAD: { name: 'Canadian Dollar', flag: 'https://flagcdn.com/ca.svg', symbol: 'C$' },
+export const SUPPORTED_CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  USD: { name: 'US Dollar', flag: flag('us'), symbol: '$', minorUnits: 2, locale: 'en-US', region: 'Americas' },
+  NGN: { name: 'Nigerian Naira', flag: flag('ng'), symbol: '₦', minorUnits: 2, locale: 'en-NG', region: 'Africa' },
+  EUR: { name: 'Euro', flag: flag('eu'), symbol: '€', minorUnits: 2, locale: 'de-DE', region: 'Europe' },
+  GBP: { name: 'British Pound', flag: flag('gb'), symbol: '£', minorUnits: 2, locale: 'en-GB', region: 'Europe' },
+  CAD: { name: 'Canadian Dollar', flag: flag('ca'), symbol: 'C$', minorUnits: 2, locale: 'en-CA', region: 'Americas' },
+  GHS: { name: 'Ghanaian Cedi', flag: flag('gh'), symbol: 'GH₵', minorUnits: 2, locale: 'en-GH', region: 'Africa' },
+  ZAR: { name: 'South African Rand', flag: flag('za'), symbol: 'R', minorUnits: 2, locale: 'en-ZA', region: 'Africa' },
+  KES: { name: 'Kenyan Shilling', flag: flag('ke'), symbol: 'KSh', minorUnits: 2, locale: 'en-KE', region: 'Africa' },
+  EGP: { name: 'Egyptian Pound', flag: flag('eg'), symbol: 'E£', minorUnits: 2, locale: 'en-EG', region: 'Africa' },
+  MAD: { name: 'Moroccan Dirham', flag: flag('ma'), symbol: 'DH', minorUnits: 2, locale: 'fr-MA', region: 'Africa' },
+  UGX: { name: 'Ugandan Shilling', flag: flag('ug'), symbol: 'USh', minorUnits: 0, locale: 'en-UG', region: 'Africa' },
+  TZS: { name: 'Tanzanian Shilling', flag: flag('tz'), symbol: 'TSh', minorUnits: 2, locale: 'en-TZ', region: 'Africa' },
+  RWF: { name: 'Rwandan Franc', flag: flag('rw'), symbol: 'FRw', minorUnits: 0, locale: 'en-RW', region: 'Africa' },
+  ZMW: { name: 'Zambian Kwacha', flag: flag('zm'), symbol: 'ZK', minorUnits: 2, locale: 'en-ZM', region: 'Africa' },
+  XOF: { name: 'West African CFA Franc', flag: flag('sn'), symbol: 'CFA', minorUnits: 0, locale: 'fr-SN', region: 'Africa' },
+  XAF: { name: 'Central African CFA Franc', flag: flag('cm'), symbol: 'FCFA', minorUnits: 0, locale: 'fr-CM', region: 'Africa' },
+  AED: { name: 'UAE Dirham', flag: flag('ae'), symbol: 'AED', minorUnits: 2, locale: 'en-AE', region: 'Middle East' },
+  SAR: { name: 'Saudi Riyal', flag: flag('sa'), symbol: 'SR', minorUnits: 2, locale: 'en-SA', region: 'Middle East' },
+  CNY: { name: 'Chinese Yuan', flag: flag('cn'), symbol: '¥', minorUnits: 2, locale: 'zh-CN', region: 'Asia' },
+  INR: { name: 'Indian Rupee', flag: flag('in'), symbol: '₹', minorUnits: 2, locale: 'en-IN', region: 'Asia' },
+  JPY: { name: 'Japanese Yen', flag: flag('jp'), symbol: 'JP¥', minorUnits: 0, locale: 'ja-JP', region: 'Asia' },
+  CHF: { name: 'Swiss Franc', flag: flag('ch'), symbol: 'CHF', minorUnits: 2, locale: 'de-CH', region: 'Europe' },
+  AUD: { name: 'Australian Dollar', flag: flag('au'), symbol: 'A$', minorUnits: 2, locale: 'en-AU', region: 'Oceania' },
 };
 
+// --- Market analysis ---
+
+export type MovementPeriod = '24h' | '7d' | '30d';
+
+// Change in the headline rate over a period, computed from stored history
+export interface RateMovement {
+  period: MovementPeriod;
+  startRate: number;
+  endRate: number;
+  change: number; // relative, e.g. -0.012 for a 1.2% fall
+}
+
+// One driver or outlook point, with the grounding sources that back it
+export interface AnalysisPoint {
+  heading: string;
+  detail: string;
+  citations: Source[];
+}
+
+export interface MarketAnalysis {
+  pair: string; // e.g. "USD-NGN", in the direction requested
+  generatedAt: string; // ISO timestamp
+  model?: string;
+  // Only periods with enough stored history
+  movement: RateMovement[];
+  drivers: AnalysisPoint[];
+  // Hedged short-term outlook; never a prediction or advice
+  outlook: AnalysisPoint[];
+}
+
+// plausibility - outside the pair's sanity band
+// history      - too far from the rates recorded over the last day
+// consistency  - official and parallel rates contradict each other
+export type SanityCheck = 'plausibility' | 'history' | 'consistency';
+
+export interface SanityIssue {
+  check: SanityCheck;
+  market?: Market;
+  message: string;
+}
+
+export type QuarantineStatus = 'pending' | 'approved' | 'rejected';
+
+// A provider quote held back from currency_rates until someone reviews it
+export interface QuarantinedRate {
+  id: number;
+  pair: string;
+  candidate: ExchangeData;
+  issues: SanityIssue[];
+  reason: string;
+  status: QuarantineStatus;
+  createdAt: string; // ISO timestamp
+  reviewedAt?: string;
+  reviewedBy?: string;
+  reviewNote?: string;
+}
+
+// --- Admin console ---
+
+// A rate pinned by an admin for a canonical pair; served instead of provider
+// quotes until it expires or is cleared.
+export interface RateOverride {
+  id: number;
+  pair: string;
+  officialRate?: number;
+  parallelRate?: number;
+  note: string;
+  expiresAt: string; // ISO timestamp
+  createdBy: string;
+  createdAt: string;
+  clearedAt?: string;
+  clearedBy?: string;
+}
+
+export interface EmergencyRate {
+  pair: string;
+  rate: number;
+  // 'built-in' rows come from the server's source; 'db' rows were edited by an admin
+  origin: 'built-in' | 'db';
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type AuditAction =
+  | 'rate.refresh'
+  | 'override.create'
+  | 'override.clear'
+  | 'emergency.set'
+  | 'emergency.delete'
+  | 'quarantine.approve'
+  | 'quarantine.reject';
+
+export interface AuditEntry {
+  id: number;
+  actor: string;
+  action: AuditAction;
+  pair?: string;
+  details: Record<string, unknown>;
+  createdAt: string; // ISO timestamp
+}
+
+// One row of the admin console's pair table
+export interface AdminPairStatus {
+  pair: string;
+  stored?: ExchangeData;
+  override?: RateOverride;
+  emergency?: EmergencyRate;
+  pendingQuarantine: number;
+}
+
+// Describes a rate shown from the persistent offline cache
+export interface CacheStatus {
+  savedAt: string; // ISO timestamp
+  offline: boolean;
+  revalidating: boolean;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Health of one rate provider as seen by the rate server's circuit breaker
+export interface ProviderStatus {
+  id: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError?: string;
+  retryAt?: string; // ISO timestamp; when an open breaker lets a trial request through
+}
+
+export interface ServiceStatus {
+  // True when any provider's breaker is not closed
+  degraded: boolean;
+  providers: ProviderStatus[];
+}
+
 export interface ConversionState {
   amount: string;
   from: CurrencyCode;
   to: CurrencyCode;
+}
+
+// --- Accounts ---
+// Saved per signed-in user in Supabase, or in localStorage when anonymous.
+
+export interface UserPreferences {
+  defaultFrom: CurrencyCode;
+  defaultTo: CurrencyCode;
+  defaultMarket: Market;
+}
+
+export interface WatchlistEntry {
+  from: CurrencyCode;
+  to: CurrencyCode;
+  addedAt: string; // ISO timestamp
+}
+
+// A conversion as it was done, at the rate of the moment
+export interface ConversionRecord extends ConversionState {
+  id: string;
+  market: Market;
+  rate: number;
+  result: string; // decimal string, rounded to the target currency's minor units
+  rateOrigin: RateOrigin;
+  convertedAt: string; // ISO timestamp
 }
\ No newline at end of file
@@ -8,11 +8,29 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The rate server (npm run server) owns provider calls and API keys
+        proxy: {
+          '/api': {
+            target: env.RATES_SERVER_URL || 'http://localhost:8787',
+            rewrite: (path) => path.replace(/^\/api/, ''),
+          },
+        },
       },
       plugins: [react()],
+      build: {
+        rollupOptions: {
+          // widget.html is the embeddable rate widget and admin.html the rate
+          // management console, both served alongside the app
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            widget: path.resolve(__dirname, 'widget.html'),
+            admin: path.resolve(__dirname, 'admin.html'),
+          },
+        },
+      },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.RATES_API_URL': JSON.stringify(env.RATES_API_URL),
+        'process.env.ALERT_STORE': JSON.stringify(env.ALERT_STORE)
       },
       resolve: {
         alias: {
@@ -0,0 +1,17 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { RateWidget } from './components/RateWidget';
+import { readWidgetConfig } from './services/widgetConfig';
+
+// Entry point for widget.html, the page partner sites embed in an iframe
+// (directly or through the <nairasense-rate> element in public/widget.js).
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error("Could not find root element to mount to");
+}
+
+ReactDOM.createRoot(rootElement).render(
+  <React.StrictMode>
+    <RateWidget config={readWidgetConfig(window.location.search)} />
+  </React.StrictMode>
+);